@@ -1,7 +1,5 @@
 
 import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
-import * as XLSX from 'xlsx';
-import JSZip from 'jszip';
 import { 
   Upload, 
   FileSpreadsheet, 
@@ -15,19 +13,61 @@ import {
   Loader2,
   Calendar,
   Filter,
-  CheckSquare,
-  Square,
   Moon,
   Sun,
   Layers,
   X,
-  RotateCcw
+  RotateCcw,
+  Columns3,
+  Pause,
+  Play,
+  FileText
 } from 'lucide-react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
-import { ImageTask, ProcessingStats, ExcelRow } from './types';
-import { normalizeName } from './utils';
-
-const MAX_CONCURRENT_DOWNLOADS = 10;
+import { ImageTask, ProcessingStats, ParsedSheet, ColumnMapping, FilenameTemplate, CollisionSettings, OutputFormatSettings, ImageProcessingSettings, ProcessingSummary, RetryPolicy, ResponsePolicy, SchedulerSettings, FetchMode, FilterPreset, QualityIssueKind, QualitySettings, RowFilter, ZipExportSettings, ZipProgress, FolderLayout, DedupeSettings, ValidationIssue, SessionSummary, ManifestEntry, RunDiff, RunManifestSummary } from './types';
+import { annotateWorkbook } from './services/workbook';
+import { ACCEPTED_INPUTS, InputFormatError, isWorkbookFile, PASTED_LIST_NAME, readInputFiles, readPastedText } from './services/inputSources';
+import { checkUrlsRemotely, validateTasks } from './services/validation';
+import { loadDedupeSettings, saveDedupeSettings } from './services/dedupe';
+import { resolveInitialMapping, saveMappings } from './services/columnMapping';
+import { loadFilenameTemplate, saveFilenameTemplate, validateTemplate } from './services/filenameTemplate';
+import { getOutputPath, loadCollisionSettings, saveCollisionSettings } from './services/collisions';
+import { ERROR_KIND_LABELS, loadResponsePolicy, loadRetryPolicy, mergeDownloadResult, replaceImage, saveResponsePolicy, saveRetryPolicy } from './services/downloader';
+import { createQueueControl, loadSchedulerSettings, QueueControl, saveSchedulerSettings } from './services/downloadQueue';
+import { applyOutputPaths, applySelectionFilter, batchBaseName, batchName, buildBatchTasks, downloadTasks, writeArchive } from './services/batch';
+import { detectProxy } from './services/proxy';
+import { EMPTY_ROW_FILTER } from './services/rowFilter';
+import { checkImageQuality, clearQualityIssue, loadQualitySettings, saveQualitySettings } from './services/imageQuality';
+import { applyBaseline, buildManifestEntries, deleteManifest, listManifests, loadManifestEntries, manifestKeys, matchesBaselineImage, saveManifest } from './services/runManifest';
+import { createSessionId, deleteSession, listSessions, loadSession, saveSession, saveSessionBlobs } from './services/sessionStore';
+import { loadOutputFormat, saveOutputFormat } from './services/imageFormat';
+import { loadProcessingSettings, saveProcessingSettings } from './services/imageProcessing';
+import { loadFolderLayout, saveFolderLayout, validateFolderLayout } from './services/folderLayout';
+import { canSaveToFolder, createDownloadSink, downloadPartMB, createFolderSink, loadZipExportSettings, pickOutputFolder, saveZipExportSettings } from './services/zipExport';
+import { buildReport, ReportFormat, reportFilename } from './services/report';
+import { downloadBlob } from './utils';
+import ColumnMappingView from './components/ColumnMappingView';
+import FilenameTemplateEditor from './components/FilenameTemplateEditor';
+import CollisionSettingsPanel from './components/CollisionSettingsPanel';
+import OutputFormatPanel from './components/OutputFormatPanel';
+import ImageProcessingPanel from './components/ImageProcessingPanel';
+import DownloadSettingsPanel from './components/DownloadSettingsPanel';
+import ResponsePolicyPanel from './components/ResponsePolicyPanel';
+import SavedSessionsPanel from './components/SavedSessionsPanel';
+import IncrementalRunPanel from './components/IncrementalRunPanel';
+import PasteListPanel from './components/PasteListPanel';
+import MergeSettingsPanel from './components/MergeSettingsPanel';
+import ValidationPanel from './components/ValidationPanel';
+import ZipExportPanel from './components/ZipExportPanel';
+import AttendeeTable from './components/AttendeeTable';
+import ImageGallery from './components/ImageGallery';
+import FilterBuilder from './components/FilterBuilder';
+import AttendeeListPanel from './components/AttendeeListPanel';
+import QualityChecksPanel from './components/QualityChecksPanel';
+import FolderLayoutPanel from './components/FolderLayoutPanel';
+
+const SESSION_SAVE_DELAY_MS = 1000;
+const TASK_UPDATE_INTERVAL_MS = 150;
 const COLORS = ['#10b981', '#ef4444', '#f59e0b', '#64748b'];
 
 const App: React.FC = () => {
@@ -38,14 +78,62 @@ const App: React.FC = () => {
   
   const [isProcessing, setIsProcessing] = useState(false);
   const [isGeneratingZip, setIsGeneratingZip] = useState(false);
-  const [excelFile, setExcelFile] = useState<File | null>(null);
+  const [inputFiles, setInputFiles] = useState<File[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [parsedSheets, setParsedSheets] = useState<ParsedSheet[]>([]);
+  const [columnMappings, setColumnMappings] = useState<Record<string, ColumnMapping>>({});
+  const [unmappedSheets, setUnmappedSheets] = useState<string[]>([]);
+  const [filenameTemplate, setFilenameTemplate] = useState<FilenameTemplate>(loadFilenameTemplate);
+  const [collisionSettings, setCollisionSettings] = useState<CollisionSettings>(loadCollisionSettings);
+  const [dedupeSettings, setDedupeSettings] = useState<DedupeSettings>(loadDedupeSettings);
+  const [folderLayout, setFolderLayout] = useState<FolderLayout>(loadFolderLayout);
+  const [outputFormat, setOutputFormat] = useState<OutputFormatSettings>(loadOutputFormat);
+  const [processingSettings, setProcessingSettings] = useState<ImageProcessingSettings>(loadProcessingSettings);
+  const [processingSummary, setProcessingSummary] = useState<ProcessingSummary | null>(null);
+  const [zipExportSettings, setZipExportSettings] = useState<ZipExportSettings>(loadZipExportSettings);
+  const [zipProgress, setZipProgress] = useState<ZipProgress | null>(null);
+  // Paths used by the last ZIP, so reports match the archive exactly
+  const writtenPathsRef = useRef<Map<string, string> | undefined>(undefined);
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(loadRetryPolicy);
+  const [schedulerSettings, setSchedulerSettings] = useState<SchedulerSettings>(loadSchedulerSettings);
+  const [responsePolicy, setResponsePolicy] = useState<ResponsePolicy>(loadResponsePolicy);
+  const [qualitySettings, setQualitySettings] = useState<QualitySettings>(loadQualitySettings);
+  const [qualityProgress, setQualityProgress] = useState<{ done: number; total: number } | null>(null);
+  // Chosen per batch, so it lives in the session rather than localStorage
+  const [fetchMode, setFetchMode] = useState<FetchMode>('direct');
+  const [proxyAvailable, setProxyAvailable] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const queueControlRef = useRef<QueueControl | null>(null);
+
+  // Pre-flight validation
+  const [remoteIssues, setRemoteIssues] = useState<ValidationIssue[]>([]);
+  const [urlCheck, setUrlCheck] = useState<{ done: number; total: number } | null>(null);
+  const urlCheckControlRef = useRef<QueueControl | null>(null);
+
+  // Session persistence
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [savedSessions, setSavedSessions] = useState<SessionSummary[]>([]);
+  const persistedBlobsRef = useRef<WeakSet<Blob>>(new WeakSet());
+  const pendingSaveRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const saveSessionRef = useRef<(() => Promise<void>) | null>(null);
+  const skipFilterRef = useRef(false);
+
+  // Incremental runs
+  const [manifests, setManifests] = useState<RunManifestSummary[]>([]);
+  const [baselineId, setBaselineId] = useState('');
+  // Set when a run ends, so its manifest is saved from the tasks as they ended up
+  const [runEnded, setRunEnded] = useState(false);
+  const [runDiff, setRunDiff] = useState<RunDiff | null>(null);
+  const baselineEntriesRef = useRef<Map<string, ManifestEntry>>(new Map());
   const [isDarkMode, setIsDarkMode] = useState(false);
   
   // Filters
   const [startDate, setStartDate] = useState<string>('');
   const [endDate, setEndDate] = useState<string>('');
+  const [includeUndated, setIncludeUndated] = useState(false);
+  const [rowFilter, setRowFilter] = useState<RowFilter>(EMPTY_ROW_FILTER);
 
-  const [activeTab, setActiveTab] = useState<'upload' | 'process' | 'results'>('upload');
+  const [activeTab, setActiveTab] = useState<'upload' | 'mapping' | 'process' | 'results'>('upload');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // --- Effects ---
@@ -62,47 +150,160 @@ const App: React.FC = () => {
   // Apply Filters automatically when inputs change
   useEffect(() => {
     if (tasks.length === 0) return;
+    // A restored session already carries its own selection
+    if (skipFilterRef.current) {
+      skipFilterRef.current = false;
+      return;
+    }
 
-    const start = startDate ? new Date(startDate) : null;
-    const end = endDate ? new Date(endDate) : null;
-    if (end) end.setHours(23, 59, 59, 999); // End of day
+    setTasks(prev => applySelectionFilter(prev, { sheets: selectedSheets, startDate, endDate, includeUndated, rowFilter }));
+  }, [startDate, endDate, includeUndated, rowFilter, selectedSheets]); // Removed tasks dependency to avoid loops, logic handled inside setter if needed, but here we just update 'isSelected'
 
-    setTasks(prev => prev.map(task => {
-      let isMatch = true;
+  // Columns of the mapped sheets, available as filename tokens
+  const availableColumns = useMemo(() => {
+    const columns = parsedSheets
+      .filter(sheet => availableSheets.includes(sheet.name))
+      .flatMap(sheet => sheet.headers);
+    return Array.from(new Set(columns));
+  }, [parsedSheets, availableSheets]);
 
-      // 1. Sheet Filter
-      if (!selectedSheets.has(task.sheet)) {
-        isMatch = false;
-      }
+  const templateErrors = useMemo(
+    () => validateTemplate(filenameTemplate, availableColumns),
+    [filenameTemplate, availableColumns]
+  );
 
-      // 2. Date Filter
-      if (isMatch && task.registrationDate) {
-         if (start && task.registrationDate < start) isMatch = false;
-         if (end && task.registrationDate > end) isMatch = false;
-      } else if (isMatch && !task.registrationDate) {
-         // If task has no date, it is excluded ONLY if a filter is active
-         if (start || end) isMatch = false; 
-      }
+  const folderLayoutErrors = useMemo(
+    () => validateFolderLayout(folderLayout, availableColumns),
+    [folderLayout, availableColumns]
+  );
+
+  // Changes whenever rows are selected or deselected, but not on other task updates
+  const selectionKey = useMemo(() => tasks.filter(t => t.isSelected).map(t => t.id).join('\n'), [tasks]);
 
-      // Don't modify completed/failed tasks selection state to preserve history, 
-      // unless we want to filter visual lists. For now, we only select pending items for processing.
-      // But user might want to re-download. Let's just toggle isSelected.
-      return { ...task, isSelected: isMatch };
-    }));
+  // Re-render output paths and resolve duplicates whenever the template, layout, strategy or selection changes
+  useEffect(() => {
+    saveFilenameTemplate(filenameTemplate);
+    saveFolderLayout(folderLayout);
+    saveCollisionSettings(collisionSettings);
+    if (templateErrors.length > 0 || folderLayoutErrors.length > 0) return;
+    writtenPathsRef.current = undefined;
+    setTasks(prev => applyOutputPaths(prev, filenameTemplate, folderLayout, collisionSettings));
+  }, [filenameTemplate, templateErrors, folderLayout, folderLayoutErrors, collisionSettings, selectionKey]);
+
+  const tasksById = useMemo(() => new Map(tasks.map(t => [t.id, t])), [tasks]);
+
+  // Remote findings only matter while the task is still waiting to download
+  const validationIssues = useMemo(
+    () => [
+      ...validateTasks(tasks, columnMappings),
+      ...remoteIssues.filter(i => tasksById.get(i.taskId)?.status === 'pending')
+    ],
+    [tasks, columnMappings, remoteIssues, tasksById]
+  );
 
-  }, [startDate, endDate, selectedSheets]); // Removed tasks dependency to avoid loops, logic handled inside setter if needed, but here we just update 'isSelected'
+  const issuesByTask = useMemo(() => {
+    const map = new Map<string, ValidationIssue[]>();
+    validationIssues.forEach(i => map.set(i.taskId, [...(map.get(i.taskId) || []), i]));
+    return map;
+  }, [validationIssues]);
 
-  // --- Helpers ---
+  // Images skipped by the quality checks stay in the gallery so they can be kept anyway
+  const galleryTasks = useMemo(() => tasks.filter(t => t.blob && (t.status === 'completed' || t.quality)), [tasks]);
 
-  const parseExcelDate = (val: any): Date | null => {
-    if (!val) return null;
-    if (typeof val === 'number') {
-      return XLSX.SSF.parse_date_code(val) ? new Date(Math.round((val - 25569) * 86400 * 1000)) : null;
-    }
-    const d = new Date(val);
-    return isNaN(d.getTime()) ? null : d;
+  const archiveTasks = useMemo(() => galleryTasks.filter(t => t.status === 'completed' && !t.excluded), [galleryTasks]);
+
+  const archivePaths = useMemo(() => archiveTasks.map(getOutputPath), [archiveTasks]);
+
+  useEffect(() => {
+    saveOutputFormat(outputFormat);
+    saveProcessingSettings(processingSettings);
+  }, [outputFormat, processingSettings]);
+
+  useEffect(() => {
+    saveRetryPolicy(retryPolicy);
+  }, [retryPolicy]);
+
+  useEffect(() => {
+    saveSchedulerSettings(schedulerSettings);
+  }, [schedulerSettings]);
+
+  useEffect(() => {
+    saveResponsePolicy(responsePolicy);
+  }, [responsePolicy]);
+
+  useEffect(() => {
+    saveQualitySettings(qualitySettings);
+  }, [qualitySettings]);
+
+  useEffect(() => {
+    saveZipExportSettings(zipExportSettings);
+  }, [zipExportSettings]);
+
+  const refreshSavedSessions = useCallback(() => {
+    listSessions().then(setSavedSessions).catch(err => console.warn("Could not list saved sessions", err));
+  }, []);
+
+  const refreshManifests = useCallback(() => {
+    listManifests().then(setManifests).catch(err => console.warn("Could not list run manifests", err));
+  }, []);
+
+  useEffect(() => {
+    refreshSavedSessions();
+    refreshManifests();
+  }, [refreshSavedSessions, refreshManifests]);
+
+  // The proxy only exists under `vite` / `vite preview`, not in a static build
+  useEffect(() => {
+    detectProxy().then(setProxyAvailable);
+  }, []);
+
+  const cancelPendingSave = () => {
+    if (pendingSaveRef.current) clearTimeout(pendingSaveRef.current);
+    pendingSaveRef.current = null;
+    saveSessionRef.current = null;
   };
 
+  // Persist the batch so a refresh or closed tab doesn't lose it. Saves are
+  // throttled rather than debounced so a running batch still gets written.
+  useEffect(() => {
+    if (!sessionId || tasks.length === 0) return;
+
+    saveSessionRef.current = () => {
+      const newBlobs = tasks
+        .filter(t => t.blob && !persistedBlobsRef.current.has(t.blob))
+        .map(t => ({ taskId: t.id, blob: t.blob! }));
+
+      return Promise.all([
+        saveSession(sessionId, batchName(inputFiles), {
+          files: inputFiles,
+          parsedSheets,
+          columnMappings,
+          unmappedSheets,
+          availableSheets,
+          selectedSheets: Array.from(selectedSheets),
+          startDate,
+          endDate,
+          includeUndated,
+          rowFilter,
+          fetchMode,
+          tasks: tasks.map(({ blob, ...rest }) => rest)
+        }),
+        saveSessionBlobs(sessionId, newBlobs)
+      ])
+        .then(() => newBlobs.forEach(b => persistedBlobsRef.current.add(b.blob)))
+        .catch(err => console.warn("Could not save session", err));
+    };
+
+    if (!pendingSaveRef.current) {
+      pendingSaveRef.current = setTimeout(() => {
+        pendingSaveRef.current = null;
+        saveSessionRef.current?.();
+      }, SESSION_SAVE_DELAY_MS);
+    }
+  }, [sessionId, tasks, selectedSheets, startDate, endDate, includeUndated, rowFilter, fetchMode]);
+
+  // --- Helpers ---
+
   const stats = useMemo<ProcessingStats>(() => {
     return {
       total: tasks.length,
@@ -110,68 +311,143 @@ const App: React.FC = () => {
       failed: tasks.filter(t => t.status === 'failed').length,
       skipped: tasks.filter(t => t.status === 'skipped').length,
       pending: tasks.filter(t => t.status === 'pending' && t.isSelected).length,
-      selected: tasks.filter(t => t.isSelected).length
+      selected: tasks.filter(t => t.isSelected).length,
+      collisions: tasks.filter(t => t.collision).length
     };
   }, [tasks]);
 
+  // Failures per reason, most common first
+  const failureKinds = useMemo(() => {
+    const counts = new Map<string, number>();
+    tasks.filter(t => t.status === 'failed').forEach(t => {
+      const label = t.errorKind ? ERROR_KIND_LABELS[t.errorKind] : 'Other';
+      counts.set(label, (counts.get(label) || 0) + 1);
+    });
+    return Array.from(counts).sort((a, b) => b[1] - a[1]);
+  }, [tasks]);
+
+  const qualityCounts = useMemo(() => {
+    const counts: Partial<Record<QualityIssueKind, number>> = {};
+    tasks.forEach(t => t.quality && (counts[t.quality.issue] = (counts[t.quality.issue] || 0) + 1));
+    return counts;
+  }, [tasks]);
+
   // --- Handlers ---
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const loadInput = (files: File[], sheets: ParsedSheet[]) => {
+    if (sheets.every(sheet => sheet.rows.length === 0)) {
+      alert("No rows found. Check that the data has a header row.");
+      return;
+    }
+    const mappings: Record<string, ColumnMapping> = {};
+    sheets.forEach(sheet => { mappings[sheet.name] = resolveInitialMapping(sheet); });
 
-    setExcelFile(file);
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array', cellDates: true });
-        
-        const allTasks: ImageTask[] = [];
-        const sheets: string[] = [];
-
-        workbook.SheetNames.forEach(sheetName => {
-          sheets.push(sheetName);
-          const worksheet = workbook.Sheets[sheetName];
-          const jsonData = XLSX.utils.sheet_to_json<ExcelRow>(worksheet);
-
-          jsonData.forEach((row, index) => {
-            const fullName = row['Full Name'];
-            const url = row['Image URL'];
-            const regDateRaw = row['Registration Date'];
-            const regDate = parseExcelDate(regDateRaw);
-
-            if (fullName && url) {
-              const normalized = normalizeName(fullName.toString());
-              allTasks.push({
-                id: `${sheetName}-${index}-${Date.now()}`,
-                sheet: sheetName,
-                fullName: fullName.toString().trim(),
-                url: url.toString().trim(),
-                filename: `${normalized}.jpg`,
-                registrationDate: regDate,
-                isSelected: true,
-                status: 'pending'
-              });
-            }
-          });
-        });
-
-        if (allTasks.length === 0) {
-          alert("No valid rows found. Ensure columns 'Full Name' and 'Image URL' exist.");
-          return;
-        }
-
-        setAvailableSheets(sheets);
-        setSelectedSheets(new Set(sheets));
-        setTasks(allTasks);
-        setActiveTab('process');
-      } catch (err) {
-        console.error("Excel parse error", err);
-        alert("Failed to parse Excel file.");
+    setInputFiles(files);
+    setParsedSheets(sheets);
+    setColumnMappings(mappings);
+    setActiveTab('mapping');
+  };
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    try {
+      loadInput(files, await readInputFiles(files));
+    } catch (err) {
+      console.error("Input parse error", err);
+      alert(err instanceof InputFormatError
+        ? err.message
+        : "Failed to read the selected files. Supported formats are Excel, CSV, TSV, JSON and plain-text lists.");
+    }
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(Array.from(event.target.files || []));
+    event.target.value = '';
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    handleFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const handlePastedList = (text: string) => {
+    // Wrapped as a file so sessions and manifests treat it like any upload
+    const file = new File([text], `${PASTED_LIST_NAME}.txt`, { type: 'text/plain' });
+    loadInput([file], readPastedText(text).map(sheet => ({ ...sheet, source: file.name, sourceIndex: 0 })));
+  };
+
+  const updateColumnMapping = (sheet: string, mapping: ColumnMapping) => {
+    setColumnMappings(prev => ({ ...prev, [sheet]: mapping }));
+  };
+
+  const confirmColumnMapping = () => {
+    const { tasks: allTasks, mappedSheets, skippedSheets } = buildBatchTasks(
+      parsedSheets, columnMappings, inputFiles.length > 1 ? dedupeSettings : undefined
+    );
+
+    if (allTasks.length === 0) {
+      alert("No valid rows found. Check that the name and image URL columns are mapped and filled in.");
+      return;
+    }
+
+    saveMappings(parsedSheets, columnMappings);
+    saveDedupeSettings(dedupeSettings);
+    setUnmappedSheets(skippedSheets);
+    setAvailableSheets(mappedSheets);
+    setSelectedSheets(new Set(mappedSheets));
+    setTasks(allTasks);
+    setRemoteIssues([]);
+    setSessionId(createSessionId());
+    setBaselineId('');
+    setRunDiff(null);
+    setActiveTab('process');
+  };
+
+  const resumeSession = async (id: string) => {
+    try {
+      const session = await loadSession(id);
+      if (!session) {
+        alert("That session could not be found.");
+        refreshSavedSessions();
+        return;
       }
-    };
-    reader.readAsArrayBuffer(file);
+      const { snapshot, tasks: restored } = session;
+      restored.forEach(t => t.blob && persistedBlobsRef.current.add(t.blob));
+
+      skipFilterRef.current = true;
+      setInputFiles(snapshot.files);
+      setParsedSheets(snapshot.parsedSheets);
+      setColumnMappings(snapshot.columnMappings);
+      setUnmappedSheets(snapshot.unmappedSheets);
+      setAvailableSheets(snapshot.availableSheets);
+      setSelectedSheets(new Set(snapshot.selectedSheets));
+      setStartDate(snapshot.startDate);
+      setEndDate(snapshot.endDate);
+      setIncludeUndated(snapshot.includeUndated ?? false);
+      setRowFilter(snapshot.rowFilter ?? EMPTY_ROW_FILTER);
+      setFetchMode(snapshot.fetchMode ?? 'direct');
+      setTasks(restored);
+      setSessionId(id);
+      setActiveTab('process');
+    } catch (err) {
+      console.error("Session restore error", err);
+      alert("Failed to restore the saved session.");
+    }
+  };
+
+  const discardSession = async (id: string) => {
+    if (!window.confirm("Discard this saved session and its downloaded images?")) return;
+    try {
+      if (id === sessionId) {
+        cancelPendingSave();
+        setSessionId(null);
+      }
+      await deleteSession(id);
+    } catch (err) {
+      console.warn("Could not discard session", err);
+    }
+    refreshSavedSessions();
   };
 
   const toggleSheet = (sheet: string) => {
@@ -189,137 +465,306 @@ const App: React.FC = () => {
   const clearFilters = () => {
     setStartDate('');
     setEndDate('');
+    setIncludeUndated(false);
+    setRowFilter(EMPTY_ROW_FILTER);
     setSelectedSheets(new Set(availableSheets));
   };
 
-  const toggleTaskSelection = (id: string) => {
-    setTasks(prev => prev.map(t => t.id === id ? { ...t, isSelected: !t.isSelected } : t));
+  const applyFilterPreset = (preset: FilterPreset) => {
+    setRowFilter(preset.rowFilter);
+    setStartDate(preset.startDate);
+    setEndDate(preset.endDate);
+    setIncludeUndated(preset.includeUndated);
   };
 
-  const toggleAllTasks = (select: boolean) => {
-    setTasks(prev => prev.map(t => ({ ...t, isSelected: select })));
-  };
+  // Stable callbacks so memoized table rows don't re-render on every change
+  const toggleTaskSelection = useCallback((id: string) => {
+    setTasks(prev => prev.map(t => t.id === id ? { ...t, isSelected: !t.isSelected } : t));
+  }, []);
+
+  const setTaskSelection = useCallback((ids: string[], select: boolean) => {
+    const targets = new Set(ids);
+    setTasks(prev => prev.map(t => targets.has(t.id) && t.isSelected !== select ? { ...t, isSelected: select } : t));
+  }, []);
 
-  const startProcessing = async () => {
-    if (stats.selected === 0) {
+  const startProcessing = async (requeued?: ImageTask[]) => {
+    if (!requeued && stats.selected === 0) {
       alert("Please select at least one person to download.");
       return;
     }
+    if (!requeued) {
+      const invalid = tasks.filter(t => t.status === 'pending' && t.isSelected && issuesByTask.get(t.id)?.some(i => i.severity === 'error')).length;
+      if (invalid > 0 && !window.confirm(`${invalid} selected rows have validation errors and will most likely fail. Start anyway?`)) return;
+    }
+    urlCheckControlRef.current?.cancel();
 
     setIsProcessing(true);
+    setIsPaused(false);
     
     // Process queue
-    const queue = tasks.filter(t => t.status === 'pending' && t.isSelected);
-    const activeDownloads = new Set();
-
-    const processQueue = async () => {
-      const remaining = [...queue];
-      
-      const downloadNext = async (): Promise<void> => {
-        if (remaining.length === 0) return;
-        const task = remaining.shift();
-        if (!task) return;
-
-        activeDownloads.add(task.id);
-        
-        try {
-          // Optimization: Update state locally then flush? 
-          // For React simpler to just update individual item in list
-          const result = await downloadImage(task);
-          setTasks(prev => prev.map(t => t.id === task.id ? result : t));
-        } finally {
-          activeDownloads.delete(task.id);
-          await downloadNext();
-        }
-      };
-
-      const initialBatch = Array.from({ length: Math.min(MAX_CONCURRENT_DOWNLOADS, remaining.length) })
-        .map(() => downloadNext());
-        
-      await Promise.all(initialBatch);
+    const queue = requeued ?? tasks.filter(t => t.status === 'pending' && t.isSelected);
+    const control = createQueueControl();
+    queueControlRef.current = control;
+
+    const manifestKeysById = manifestKeys(tasks);
+
+    // Task updates are applied in batches; one state update per image is too slow for large events
+    const pendingUpdates = new Map<string, (task: ImageTask) => ImageTask>();
+    let flushTimer: number | undefined;
+    const flushUpdates = () => {
+      window.clearTimeout(flushTimer);
+      flushTimer = undefined;
+      if (pendingUpdates.size === 0) return;
+      const updates = new Map(pendingUpdates);
+      pendingUpdates.clear();
+      setTasks(prev => prev.map(t => updates.get(t.id)?.(t) ?? t));
+    };
+    const queueUpdate = (id: string, update: (task: ImageTask) => ImageTask) => {
+      pendingUpdates.set(id, update);
+      flushTimer ??= window.setTimeout(flushUpdates, TASK_UPDATE_INTERVAL_MS);
     };
 
-    await processQueue();
-    
-    // Drain
-    while (activeDownloads.size > 0) {
-      await new Promise(resolve => setTimeout(resolve, 200));
-    }
+    await downloadTasks(queue, {
+      scheduler: schedulerSettings,
+      retryPolicy,
+      responsePolicy,
+      fetchMode,
+      control,
+      onStart: task => queueUpdate(task.id, t => ({ ...t, status: 'downloading' })),
+      onResult: downloaded => {
+        const result = downloaded.status === 'completed' && baselineId && matchesBaselineImage(downloaded, manifestKeysById.get(downloaded.id), baselineEntriesRef.current)
+          ? { ...downloaded, status: 'skipped' as const, error: 'Same image as previous run', unchangedSince: baselineId }
+          : downloaded;
+        queueUpdate(result.id, t => mergeDownloadResult(t, result));
+      }
+    });
+    flushUpdates();
 
+    queueControlRef.current = null;
     setIsProcessing(false);
-    setActiveTab('results');
+    setIsPaused(false);
+    setRunEnded(true);
+    if (!control.cancelled) setActiveTab('results');
   };
 
-  const downloadImage = async (task: ImageTask): Promise<ImageTask> => {
+  // Record each run so the next one can download only what changed
+  useEffect(() => {
+    if (!runEnded) return;
+    setRunEnded(false);
+    saveManifest(sessionId ?? createSessionId(), batchName(inputFiles), buildManifestEntries(tasks))
+      .then(refreshManifests)
+      .catch(err => console.warn("Could not save run manifest", err));
+  }, [runEnded]);
+
+  const checkUrls = async () => {
+    const erroneous = new Set(validationIssues.filter(i => i.severity === 'error').map(i => i.taskId));
+    const toCheck = tasks.filter(t => t.status === 'pending' && t.isSelected && !erroneous.has(t.id));
+    if (toCheck.length === 0) return;
+
+    const control = createQueueControl();
+    urlCheckControlRef.current = control;
+    setRemoteIssues([]);
+    setUrlCheck({ done: 0, total: toCheck.length });
     try {
-      const response = await fetch(task.url, { mode: 'cors' });
-      if (!response.ok) throw new Error(`HTTP ${response.status}`);
-      const blob = await response.blob();
-      if (!blob.type.startsWith('image/') && blob.size < 100) throw new Error('Invalid image');
-      return { ...task, status: 'completed', blob };
-    } catch (error: any) {
-      return { ...task, status: 'failed', error: error.message.includes('Failed to fetch') ? 'CORS/Network Error' : error.message };
+      await checkUrlsRemotely(toCheck, control, (done, issues) => {
+        setUrlCheck({ done, total: toCheck.length });
+        setRemoteIssues(issues);
+      }, { fetchMode, scheduler: schedulerSettings });
+    } catch (err) {
+      console.error("URL check error", err);
+    } finally {
+      urlCheckControlRef.current = null;
+      setUrlCheck(null);
     }
   };
 
-  const generateZip = async () => {
-    setIsGeneratingZip(true);
+  const deselectInvalidRows = () => {
+    const invalid = new Set(validationIssues.filter(i => i.severity === 'error').map(i => i.taskId));
+    setTasks(prev => prev.map(t => invalid.has(t.id) ? { ...t, isSelected: false } : t));
+  };
+
+  const togglePause = () => {
+    const control = queueControlRef.current;
+    if (!control) return;
+    if (control.paused) control.resume();
+    else control.pause();
+    setIsPaused(control.paused);
+  };
+
+  // Aborts in-flight downloads; they and everything not yet started stay pending
+  const cancelProcessing = () => {
+    queueControlRef.current?.cancel();
+  };
+
+  // Compares the batch with an earlier run and skips attendees whose photo is unchanged
+  const selectBaseline = async (id: string) => {
     try {
-      const zip = new JSZip();
-      const completedTasks = tasks.filter(t => t.status === 'completed' && t.blob);
-      
-      if (completedTasks.length === 0) {
-        alert("No images available to zip.");
-        setIsGeneratingZip(false);
-        return;
-      }
+      const entries = id ? await loadManifestEntries(id) : [];
+      baselineEntriesRef.current = new Map(entries.map(e => [e.key, e]));
+      const { tasks: next, diff } = applyBaseline(tasks, id ? { id, entries } : null);
+      setTasks(next);
+      setRunDiff(diff);
+      setBaselineId(id);
+    } catch (err) {
+      console.error("Baseline load error", err);
+      alert("Failed to load the previous run.");
+    }
+  };
 
-      completedTasks.forEach(task => {
-        // Always group by Sheet Name as per standard Cvent requirement
-        const folder = zip.folder(task.sheet);
-        if (folder && task.blob) {
-          folder.file(task.filename, task.blob);
-        }
-      });
+  const removeManifest = async (id: string) => {
+    if (!window.confirm("Delete this run record? Future runs can no longer be compared against it.")) return;
+    try {
+      await deleteManifest(id);
+      if (id === baselineId) await selectBaseline('');
+    } catch (err) {
+      console.warn("Could not delete run manifest", err);
+    }
+    refreshManifests();
+  };
 
-      const failedTasks = tasks.filter(t => t.status === 'failed' && t.isSelected);
-      if (failedTasks.length > 0) {
-        let csvContent = "Sheet,Full Name,Filename,URL,Error,RegistrationDate\n";
-        failedTasks.forEach(t => {
-          const dateStr = t.registrationDate ? t.registrationDate.toISOString().split('T')[0] : '';
-          csvContent += `"${t.sheet}","${t.fullName}","${t.filename}","${t.url}","${t.error}","${dateStr}"\n`;
-        });
-        zip.file("failures_report.csv", csvContent);
-      }
+  // Puts failed tasks back in the queue and runs just those
+  const retryFailed = () => {
+    if (isProcessing) return;
+    const requeued = tasks
+      .filter(t => t.status === 'failed')
+      .map(t => ({ ...t, status: 'pending' as const, error: undefined, errorKind: undefined, httpStatus: undefined, attempts: undefined, isSelected: true }));
+    if (requeued.length === 0) return;
+
+    const ids = new Set(requeued.map(t => t.id));
+    setTasks(prev => prev.map(t => ids.has(t.id) ? requeued.find(r => r.id === t.id)! : t));
+    setActiveTab('process');
+    startProcessing(requeued);
+  };
 
-      const content = await zip.generateAsync({ type: 'blob' });
-      const url = URL.createObjectURL(content);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `Cvent_Batch_${new Date().toISOString().split('T')[0]}.zip`;
-      document.body.appendChild(link);
-      link.click();
-      
-      setTimeout(() => {
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-      }, 100);
+  const toggleExcluded = (id: string) => {
+    setTasks(prev => prev.map(t => t.id === id ? { ...t, excluded: !t.excluded } : t));
+  };
+
+  const replaceTaskImage = async (id: string, file: File) => {
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+    try {
+      const replaced = await replaceImage(task, file);
+      setTasks(prev => prev.map(t => t.id === id ? replaced : t));
+    } catch (error) {
+      console.error(error);
+      alert(error instanceof Error ? error.message : "Could not use that file.");
+    }
+  };
 
+  const runQualityChecks = async (settings: QualitySettings = qualitySettings) => {
+    setQualityProgress({ done: 0, total: 0 });
+    try {
+      const checked = new Map((await checkImageQuality(tasks, settings, (done, total) => setQualityProgress({ done, total }))).map(t => [t.id, t]));
+      setTasks(prev => prev.map(t => checked.get(t.id) ?? t));
+    } catch (error) {
+      console.error(error);
+      alert("Error checking image quality.");
+    } finally {
+      setQualityProgress(null);
+    }
+  };
+
+  const dismissQualityIssue = (id: string) => {
+    setTasks(prev => prev.map(t => t.id === id ? clearQualityIssue(t) : t));
+  };
+
+  const markPlaceholder = (id: string) => {
+    const phash = tasks.find(t => t.id === id)?.phash;
+    if (!phash || qualitySettings.placeholderHashes.includes(phash)) return;
+    const settings = { ...qualitySettings, placeholderHashes: [...qualitySettings.placeholderHashes, phash] };
+    setQualitySettings(settings);
+    runQualityChecks(settings);
+  };
+
+  const generateZip = async () => {
+    if (archiveTasks.length === 0) {
+      alert("No images available to zip.");
+      return;
+    }
+    if (folderLayoutErrors.length > 0) {
+      alert("Fix the folder layout before downloading the ZIP.");
+      return;
+    }
+
+    try {
+      // The folder picker must open before anything else is awaited
+      let folder: FileSystemDirectoryHandle | null = null;
+      if (zipExportSettings.saveToFolder && canSaveToFolder()) {
+        folder = await pickOutputFolder();
+        if (!folder) return;
+      }
+      setIsGeneratingZip(true);
+
+      const { summary, written } = await writeArchive(tasks, {
+        baseName: batchBaseName(),
+        maxPartMB: folder ? zipExportSettings.maxPartMB : downloadPartMB(zipExportSettings.maxPartMB),
+        processing: processingSettings,
+        output: outputFormat,
+        openSink: async filename => folder ? createFolderSink(folder, filename) : createDownloadSink(filename),
+        onProgress: setZipProgress
+      });
+      setProcessingSummary(summary);
+      writtenPathsRef.current = written;
     } catch (error) {
       console.error(error);
       alert("Error generating ZIP.");
     } finally {
       setIsGeneratingZip(false);
+      setZipProgress(null);
+    }
+  };
+
+  const downloadReport = (format: ReportFormat) => {
+    try {
+      downloadBlob(buildReport(tasks, format, writtenPathsRef.current), reportFilename(batchBaseName(), format));
+    } catch (error) {
+      console.error(error);
+      alert("Error generating the report.");
+    }
+  };
+
+  const downloadAnnotatedWorkbooks = async () => {
+    try {
+      // One workbook per uploaded file, each with only its own sheets
+      for (const [index, file] of inputFiles.entries()) {
+        if (!isWorkbookFile(file)) continue;
+        // Sessions saved before sourceIndex existed only have the file name
+        const sheets = parsedSheets.filter(sheet => sheet.sourceIndex === undefined ? sheet.source === file.name : sheet.sourceIndex === index);
+        const annotated = annotateWorkbook(await file.arrayBuffer(), sheets, tasks, writtenPathsRef.current);
+        downloadBlob(annotated, `${file.name.replace(/\.[^.]+$/, '')}_with_photos.xlsx`);
+      }
+    } catch (error) {
+      console.error(error);
+      alert("Error writing results into the workbook.");
     }
   };
 
   const reset = () => {
     if (isProcessing) return;
     setTasks([]);
-    setExcelFile(null);
+    setInputFiles([]);
+    setParsedSheets([]);
+    setColumnMappings({});
+    setUnmappedSheets([]);
+    setProcessingSummary(null);
     setStartDate('');
     setEndDate('');
+    setIncludeUndated(false);
+    setRowFilter(EMPTY_ROW_FILTER);
+    setFetchMode('direct');
+    // Flush the last state so the session can be resumed from the list
+    const flush = saveSessionRef.current?.() ?? Promise.resolve();
+    cancelPendingSave();
+    setSessionId(null);
+    setBaselineId('');
+    setRunDiff(null);
+    baselineEntriesRef.current = new Map();
+    writtenPathsRef.current = undefined;
+    urlCheckControlRef.current?.cancel();
+    setRemoteIssues([]);
     setActiveTab('upload');
+    flush.finally(refreshSavedSessions);
   };
 
   const chartData = [
@@ -356,7 +801,7 @@ const App: React.FC = () => {
             >
               {isDarkMode ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
             </button>
-            {excelFile && (
+            {inputFiles.length > 0 && (
               <button 
                 onClick={reset}
                 disabled={isProcessing}
@@ -372,6 +817,7 @@ const App: React.FC = () => {
         <nav className="flex mb-8 bg-white/50 dark:bg-slate-900/50 backdrop-blur-xl p-1.5 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-800">
           {[
             { id: 'upload', icon: Upload, label: 'Upload' },
+            { id: 'mapping', icon: Columns3, label: 'Map Columns', disabled: parsedSheets.length === 0 || isProcessing },
             { id: 'process', icon: Settings2, label: 'Filter & Process', disabled: tasks.length === 0 },
             { id: 'results', icon: Download, label: 'Download', disabled: stats.completed === 0 && stats.failed === 0 }
           ].map((tab) => (
@@ -396,28 +842,51 @@ const App: React.FC = () => {
           
           {/* 1. Upload View */}
           {activeTab === 'upload' && (
-            <div className="p-12 flex flex-col items-center justify-center h-[600px] text-center animate-in fade-in zoom-in-95 duration-300">
+            <div
+              onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+              onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false); }}
+              onDrop={handleDrop}
+              className={`p-12 flex flex-col items-center justify-center min-h-[600px] text-center animate-in fade-in zoom-in-95 duration-300 transition-colors ${isDragging ? 'bg-blue-50/70 dark:bg-blue-900/20 ring-2 ring-inset ring-blue-400' : ''}`}
+            >
               <div className="w-24 h-24 bg-blue-50 dark:bg-blue-900/20 rounded-3xl flex items-center justify-center mb-8 rotate-3 transform transition-transform hover:rotate-0">
                 <FileSpreadsheet className="w-12 h-12 text-blue-600 dark:text-blue-400" />
               </div>
               <h2 className="text-3xl font-bold text-slate-800 dark:text-white mb-3">Import Data</h2>
               <p className="text-slate-500 dark:text-slate-400 max-w-md mb-10 text-lg">
-                Drag and drop your Excel file here, or click to browse.
-                <br/><span className="text-sm opacity-75">Required columns: Full Name, Image URL</span>
+                Drop one or more Excel, CSV, TSV or JSON files here, or paste a list of names and photo URLs.
+                <br/><span className="text-sm opacity-75">Several files, e.g. one export per conference day, are merged into one batch.</span>
               </p>
               
               <label className="group relative cursor-pointer">
-                <input type="file" ref={fileInputRef} className="hidden" accept=".xlsx, .xls" onChange={handleFileUpload} />
+                <input type="file" ref={fileInputRef} className="hidden" accept={ACCEPTED_INPUTS} multiple onChange={handleFileUpload} />
                 <div className="absolute -inset-1 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-2xl blur opacity-30 group-hover:opacity-60 transition duration-200"></div>
                 <div className="relative px-10 py-5 bg-white dark:bg-slate-800 ring-1 ring-slate-200 dark:ring-slate-700 rounded-xl flex items-center gap-3">
-                  <span className="font-bold text-slate-700 dark:text-slate-200 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">Select Excel File</span>
+                  <span className="font-bold text-slate-700 dark:text-slate-200 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">Select Files</span>
                   <Upload className="w-5 h-5 text-slate-400 group-hover:text-blue-600 transition-colors" />
                 </div>
               </label>
+
+              <PasteListPanel onSubmit={handlePastedList} />
+
+              <SavedSessionsPanel sessions={savedSessions} onResume={resumeSession} onDiscard={discardSession} />
             </div>
           )}
 
-          {/* 2. Process View */}
+          {/* 2. Column Mapping View */}
+          {activeTab === 'mapping' && (
+            <ColumnMappingView
+              sheets={parsedSheets}
+              mappings={columnMappings}
+              onChange={updateColumnMapping}
+              onConfirm={confirmColumnMapping}
+            >
+              {inputFiles.length > 1 && (
+                <MergeSettingsPanel files={inputFiles.map(f => f.name)} settings={dedupeSettings} onChange={setDedupeSettings} />
+              )}
+            </ColumnMappingView>
+          )}
+
+          {/* 3. Process View */}
           {activeTab === 'process' && (
             <div className="p-6 md:p-8 grid grid-cols-1 lg:grid-cols-12 gap-8 h-full animate-in slide-in-from-right-4 duration-300">
               
@@ -460,6 +929,10 @@ const App: React.FC = () => {
                         />
                       </div>
                     </div>
+                    <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300">
+                      <input type="checkbox" checked={includeUndated} onChange={(e) => setIncludeUndated(e.target.checked)} />
+                      Include rows without a date
+                    </label>
                   </div>
 
                   {/* Sheet Filter */}
@@ -486,6 +959,80 @@ const App: React.FC = () => {
                         </button>
                       ))}
                     </div>
+                    {unmappedSheets.length > 0 && (
+                      <p className="text-[11px] text-amber-600 dark:text-amber-400">
+                        Not mapped, skipped: {unmappedSheets.join(', ')}
+                      </p>
+                    )}
+                  </div>
+
+                  <FilterBuilder
+                    filter={rowFilter}
+                    columns={availableColumns}
+                    dates={{ startDate, endDate, includeUndated }}
+                    onChange={setRowFilter}
+                    onApplyPreset={applyFilterPreset}
+                  />
+                </div>
+
+                <AttendeeListPanel tasks={tasks} onSetSelection={setTaskSelection} />
+
+                {/* Filename Card */}
+                <div className="bg-slate-50/50 dark:bg-slate-800/50 p-6 rounded-2xl border border-slate-200 dark:border-slate-700 space-y-4">
+                  <FilenameTemplateEditor
+                    template={filenameTemplate}
+                    columns={availableColumns}
+                    errors={templateErrors}
+                    preview={tasks.slice(0, 3).map(t => t.filename)}
+                    onChange={setFilenameTemplate}
+                  />
+                  <CollisionSettingsPanel
+                    settings={collisionSettings}
+                    columns={availableColumns}
+                    duplicateCount={stats.collisions}
+                    onChange={setCollisionSettings}
+                  />
+                </div>
+
+                {/* Incremental Run Card */}
+                <div className="bg-slate-50/50 dark:bg-slate-800/50 p-6 rounded-2xl border border-slate-200 dark:border-slate-700">
+                  <IncrementalRunPanel
+                    manifests={manifests.filter(m => m.id !== sessionId)}
+                    baselineId={baselineId}
+                    diff={runDiff}
+                    disabled={isProcessing}
+                    onSelectBaseline={selectBaseline}
+                    onDeleteManifest={removeManifest}
+                  />
+                </div>
+
+                {/* Validation Card */}
+                <div className="bg-slate-50/50 dark:bg-slate-800/50 p-6 rounded-2xl border border-slate-200 dark:border-slate-700">
+                  <ValidationPanel
+                    issues={validationIssues}
+                    tasksById={tasksById}
+                    urlCheck={urlCheck}
+                    disabled={isProcessing}
+                    onCheckUrls={checkUrls}
+                    onCancelCheck={() => urlCheckControlRef.current?.cancel()}
+                    onDeselectErrors={deselectInvalidRows}
+                  />
+                </div>
+
+                {/* Download Settings Card */}
+                <div className="bg-slate-50/50 dark:bg-slate-800/50 p-6 rounded-2xl border border-slate-200 dark:border-slate-700">
+                  <DownloadSettingsPanel
+                    retryPolicy={retryPolicy}
+                    scheduler={schedulerSettings}
+                    fetchMode={fetchMode}
+                    proxyAvailable={proxyAvailable}
+                    disabled={isProcessing}
+                    onRetryPolicyChange={setRetryPolicy}
+                    onSchedulerChange={setSchedulerSettings}
+                    onFetchModeChange={(mode) => { setFetchMode(mode); setRemoteIssues([]); }}
+                  />
+                  <div className="mt-5 pt-5 border-t border-slate-200 dark:border-slate-700">
+                    <ResponsePolicyPanel policy={responsePolicy} disabled={isProcessing} onChange={setResponsePolicy} />
                   </div>
                 </div>
 
@@ -521,76 +1068,54 @@ const App: React.FC = () => {
                 {/* Action Button */}
                 {!isProcessing ? (
                   <button 
-                    onClick={startProcessing}
+                    onClick={() => startProcessing()}
                     disabled={stats.selected === 0}
                     className="w-full py-4 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-2xl shadow-lg shadow-blue-500/25 transition-all flex items-center justify-center gap-3 disabled:opacity-50 disabled:cursor-not-allowed disabled:shadow-none"
                   >
                     Start Batch <ArrowRight className="w-5 h-5" />
                   </button>
                 ) : (
-                  <div className="w-full py-4 bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400 font-bold rounded-2xl flex items-center justify-center gap-3 border border-slate-200 dark:border-slate-700">
-                    <RefreshCw className="w-5 h-5 animate-spin" /> Processing...
+                  <div className="space-y-2">
+                    <div className="w-full py-4 bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400 font-bold rounded-2xl flex items-center justify-center gap-3 border border-slate-200 dark:border-slate-700">
+                      {isPaused
+                        ? <><Pause className="w-5 h-5" /> Paused</>
+                        : <><RefreshCw className="w-5 h-5 animate-spin" /> Processing...</>}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <button
+                        onClick={togglePause}
+                        className="py-3 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 font-bold rounded-2xl border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 transition-all flex items-center justify-center gap-2"
+                      >
+                        {isPaused ? <><Play className="w-4 h-4" /> Resume</> : <><Pause className="w-4 h-4" /> Pause</>}
+                      </button>
+                      <button
+                        onClick={cancelProcessing}
+                        className="py-3 bg-white dark:bg-slate-800 text-rose-600 dark:text-rose-400 font-bold rounded-2xl border border-rose-200 dark:border-rose-900 hover:bg-rose-50 dark:hover:bg-rose-900/20 transition-all flex items-center justify-center gap-2"
+                      >
+                        <X className="w-4 h-4" /> Cancel
+                      </button>
+                    </div>
                   </div>
                 )}
+                {!isProcessing && stats.failed > 0 && (
+                  <button
+                    onClick={retryFailed}
+                    className="w-full py-3 bg-white dark:bg-slate-800 text-rose-600 dark:text-rose-400 font-bold rounded-2xl border border-rose-200 dark:border-rose-900 hover:bg-rose-50 dark:hover:bg-rose-900/20 transition-all flex items-center justify-center gap-2"
+                  >
+                    <RotateCcw className="w-4 h-4" /> Retry {stats.failed} Failed
+                  </button>
+                )}
 
               </div>
 
               {/* Right Sidebar: Table */}
-              <div className="lg:col-span-8 flex flex-col h-full overflow-hidden bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700">
-                <div className="p-4 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50/50 dark:bg-slate-900/50 backdrop-blur">
-                  <h3 className="font-bold text-slate-700 dark:text-slate-200">Attendee List</h3>
-                  <div className="flex gap-2">
-                    <button onClick={() => toggleAllTasks(true)} className="text-xs font-semibold text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/30 px-2 py-1 rounded">Select All</button>
-                    <button onClick={() => toggleAllTasks(false)} className="text-xs font-semibold text-slate-500 hover:bg-slate-50 dark:hover:bg-slate-700 px-2 py-1 rounded">Clear</button>
-                  </div>
-                </div>
-                
-                <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
-                  <table className="w-full text-left border-collapse">
-                    <thead className="sticky top-0 bg-white dark:bg-slate-800 z-10 shadow-sm">
-                      <tr>
-                        <th className="p-3 w-10"></th>
-                        <th className="p-3 text-xs font-bold text-slate-400 uppercase">Details</th>
-                        <th className="p-3 text-xs font-bold text-slate-400 uppercase text-right">Status</th>
-                      </tr>
-                    </thead>
-                    <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
-                      {tasks.map((task) => (
-                        <tr key={task.id} className={`group hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors ${!task.isSelected ? 'opacity-50 grayscale' : ''}`}>
-                          <td className="p-3">
-                            <button onClick={() => toggleTaskSelection(task.id)} className="text-blue-600 dark:text-blue-500">
-                              {task.isSelected ? <CheckSquare className="w-5 h-5" /> : <Square className="w-5 h-5 text-slate-300 dark:text-slate-600" />}
-                            </button>
-                          </td>
-                          <td className="p-3">
-                            <div className="flex items-center gap-3">
-                              <div className="w-8 h-8 rounded-full bg-slate-100 dark:bg-slate-700 flex items-center justify-center text-xs font-bold text-slate-500">
-                                {task.fullName.charAt(0)}
-                              </div>
-                              <div>
-                                <p className="text-sm font-bold text-slate-800 dark:text-slate-200">{task.fullName}</p>
-                                <div className="flex items-center gap-2 text-[10px] text-slate-400 mt-0.5">
-                                  <span className="bg-slate-100 dark:bg-slate-900 px-1.5 py-0.5 rounded text-slate-500 dark:text-slate-400">{task.sheet}</span>
-                                  <span>{task.registrationDate ? task.registrationDate.toLocaleDateString() : 'No Date'}</span>
-                                </div>
-                              </div>
-                            </div>
-                          </td>
-                          <td className="p-3 text-right">
-                             <StatusBadge status={task.status} />
-                          </td>
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
-              </div>
+              <AttendeeTable tasks={tasks} issuesByTask={issuesByTask} onToggle={toggleTaskSelection} onSetSelection={setTaskSelection} />
             </div>
           )}
 
-          {/* 3. Results View */}
+          {/* 4. Results View */}
           {activeTab === 'results' && (
-            <div className="p-12 flex flex-col items-center justify-center h-[600px] text-center animate-in zoom-in-95 duration-300">
+            <div className="p-12 flex flex-col items-center justify-center min-h-[600px] text-center animate-in zoom-in-95 duration-300">
               <div className="w-20 h-20 bg-emerald-100 dark:bg-emerald-900/30 rounded-full flex items-center justify-center mb-6">
                 <CheckCircle2 className="w-10 h-10 text-emerald-600 dark:text-emerald-400" />
               </div>
@@ -612,7 +1137,21 @@ const App: React.FC = () => {
                        {isGeneratingZip ? <Loader2 className="text-white w-6 h-6 animate-spin" /> : <Download className="text-white w-6 h-6" />}
                     </div>
                     <h3 className="text-xl font-bold text-slate-800 dark:text-white">Download ZIP</h3>
-                    <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">Organized by Excel sheet name.</p>
+                    <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">Organized as shown in the folder layout below.</p>
+                    {zipProgress && (
+                      <div className="mt-4">
+                        <div className="flex justify-between text-[11px] font-semibold text-slate-500 dark:text-slate-400 mb-1">
+                          <span>
+                            {zipProgress.phase === 'preparing' ? 'Preparing images' : 'Writing ZIP'}
+                            {zipProgress.parts > 1 && ` · part ${zipProgress.part} of ${zipProgress.parts}`}
+                          </span>
+                          <span className="font-mono">{zipProgress.percent}%</span>
+                        </div>
+                        <div className="h-1.5 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+                          <div className="h-full bg-blue-600 transition-all" style={{ width: `${zipProgress.percent}%` }} />
+                        </div>
+                      </div>
+                    )}
                   </div>
                 </button>
 
@@ -625,12 +1164,89 @@ const App: React.FC = () => {
                     </div>
                     <h3 className="text-xl font-bold text-slate-800 dark:text-white">{stats.failed} Failed</h3>
                     <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">
-                      {stats.failed > 0 ? "Download the ZIP to view the 'failures_report.csv'." : "Perfect run! No errors detected."}
+                      {stats.failed > 0 ? "See the run report for the reason behind each failure." : "Perfect run! No errors detected."}
                     </p>
+                    {failureKinds.length > 0 && (
+                      <ul className="mt-3 space-y-0.5 text-xs text-slate-600 dark:text-slate-300">
+                        {failureKinds.map(([label, count]) => (
+                          <li key={label} className="flex justify-between max-w-[220px]">
+                            <span>{label}</span><span className="font-semibold">{count}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <div className="mt-4 flex items-center gap-1.5 text-xs">
+                      <FileText className="w-4 h-4 text-slate-400" />
+                      <span className="text-slate-500 dark:text-slate-400 mr-1">Run report:</span>
+                      {(['csv', 'xlsx', 'json'] as ReportFormat[]).map(format => (
+                        <button
+                          key={format}
+                          onClick={() => downloadReport(format)}
+                          className="px-2 py-1 rounded-md font-bold uppercase text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30"
+                        >
+                          {format}
+                        </button>
+                      ))}
+                    </div>
+                    {inputFiles.some(isWorkbookFile) && (
+                      <button
+                        onClick={downloadAnnotatedWorkbooks}
+                        className="mt-2 text-xs font-bold text-blue-600 dark:text-blue-400 flex items-center gap-1.5 hover:underline"
+                      >
+                        <FileSpreadsheet className="w-4 h-4" /> Original {inputFiles.filter(isWorkbookFile).length > 1 ? 'workbooks' : 'workbook'} with results
+                      </button>
+                    )}
+                    {stats.failed > 0 && (
+                      <button
+                        onClick={retryFailed}
+                        disabled={isGeneratingZip}
+                        className="mt-4 text-sm font-bold text-rose-600 dark:text-rose-400 flex items-center gap-1.5 hover:underline disabled:opacity-50"
+                      >
+                        <RotateCcw className="w-4 h-4" /> Retry failed
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
 
+              <QualityChecksPanel
+                settings={qualitySettings}
+                counts={qualityCounts}
+                progress={qualityProgress}
+                disabled={isGeneratingZip}
+                onChange={setQualitySettings}
+                onRun={() => runQualityChecks()}
+              />
+              <ImageGallery
+                tasks={galleryTasks}
+                disabled={isGeneratingZip || !!qualityProgress}
+                onToggleExcluded={toggleExcluded}
+                onReplace={replaceTaskImage}
+                onDismissIssue={dismissQualityIssue}
+                onMarkPlaceholder={markPlaceholder}
+              />
+              <FolderLayoutPanel
+                layout={folderLayout}
+                columns={availableColumns}
+                errors={folderLayoutErrors}
+                paths={archivePaths}
+                disabled={isGeneratingZip}
+                onChange={setFolderLayout}
+              />
+              <ZipExportPanel settings={zipExportSettings} onChange={setZipExportSettings} disabled={isGeneratingZip} />
+              <OutputFormatPanel settings={outputFormat} onChange={setOutputFormat} disabled={isGeneratingZip} />
+              <ImageProcessingPanel
+                processing={processingSettings}
+                output={outputFormat}
+                summary={processingSummary}
+                disabled={isGeneratingZip}
+                onChange={setProcessingSettings}
+                onApplyPreset={(preset) => {
+                  setProcessingSettings(preset.processing);
+                  setOutputFormat(preset.output);
+                }}
+              />
+
               <button onClick={reset} className="mt-12 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 font-medium transition-colors">
                 Start a New Batch
               </button>
@@ -643,28 +1259,4 @@ const App: React.FC = () => {
   );
 };
 
-const StatusBadge: React.FC<{ status: ImageTask['status'] }> = ({ status }) => {
-  const styles = {
-    completed: "bg-emerald-100 text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-400",
-    failed: "bg-rose-100 text-rose-700 dark:bg-rose-500/20 dark:text-rose-400",
-    downloading: "bg-blue-100 text-blue-700 dark:bg-blue-500/20 dark:text-blue-400",
-    pending: "bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400",
-    skipped: "bg-amber-100 text-amber-700 dark:bg-amber-500/20 dark:text-amber-400"
-  };
-
-  const labels = {
-    completed: "Done",
-    failed: "Error",
-    downloading: "Busy",
-    pending: "Queue",
-    skipped: "Skip"
-  };
-
-  return (
-    <span className={`inline-flex items-center px-2.5 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider ${styles[status] || styles.pending}`}>
-      {labels[status]}
-    </span>
-  );
-};
-
 export default App;
@@ -0,0 +1,265 @@
+import { mkdir, open, readFile, rm, writeFile } from 'fs/promises';
+import { basename, dirname, join, resolve } from 'path';
+import { parseArgs } from 'util';
+import { FolderLayout, ImageTask, ProcessingSummary } from '../types';
+import { formatBytes } from '../utils';
+import { applyOutputPaths, applySelectionFilter, batchBaseName, buildBatchTasks, buildCollisionReport, downloadTasks, writeArchive } from '../services/batch';
+import { resolveInitialMapping } from '../services/columnMapping';
+import { DEFAULT_COLLISION_SETTINGS } from '../services/collisions';
+import { DEFAULT_DEDUPE_SETTINGS } from '../services/dedupe';
+import { DEFAULT_RESPONSE_POLICY, DEFAULT_RETRY_POLICY } from '../services/downloader';
+import { createQueueControl, DEFAULT_SCHEDULER } from '../services/downloadQueue';
+import { DEFAULT_TEMPLATE, validateTemplate } from '../services/filenameTemplate';
+import { DEFAULT_FOLDER_LAYOUT } from '../services/folderLayout';
+import { DEFAULT_OUTPUT_FORMAT } from '../services/imageFormat';
+import { DEFAULT_PROCESSING } from '../services/imageProcessing';
+import { readInputFiles } from '../services/inputSources';
+import { buildReport, ReportFormat, reportFilename } from '../services/report';
+import { DEFAULT_ZIP_EXPORT, prepareImageEntries, ZipSink } from '../services/zipExport';
+
+const USAGE = `Usage: npm run cli -- <input files...> [options]
+
+Downloads the attendee photos listed in Excel, CSV, TSV, JSON or text files,
+the same way the web app does.
+
+Options:
+  --sheet <name>        Only these sheets; repeat for several (default: all)
+  --from <yyyy-mm-dd>   Registered on or after this date
+  --to <yyyy-mm-dd>     Registered on or before this date
+  --include-undated     Keep rows without a registration date when --from or --to is set
+  --concurrency <n>     Parallel downloads (default ${DEFAULT_SCHEDULER.concurrency})
+  --per-host <n>        Parallel downloads per host (default ${DEFAULT_SCHEDULER.perHostConcurrency})
+  --rate <n>            Requests per second per host, 0 for no limit (default ${DEFAULT_SCHEDULER.requestsPerSecond})
+  --no-backoff          Keep full speed when a host answers 429 or 5xx
+  --retries <n>         Attempts per image (default ${DEFAULT_RETRY_POLICY.maxAttempts})
+  --timeout <s>         Seconds per attempt, 0 for none (default ${DEFAULT_RESPONSE_POLICY.timeoutMs / 1000})
+  --max-mb <n>          Largest accepted image, 0 for no limit (default ${DEFAULT_RESPONSE_POLICY.maxBytes / 1024 / 1024})
+  --out <dir>           Write the images into a folder instead of a ZIP
+  --zip <file>          ZIP to write (default ${batchBaseName()}.zip)
+  --max-part-mb <n>     Split the ZIP into parts of this size (default ${DEFAULT_ZIP_EXPORT.maxPartMB})
+  --report <format>     Run report as csv, xlsx or json (default csv)
+  --template <pattern>  Filename pattern (default "${DEFAULT_TEMPLATE.pattern}")
+  --layout <mode>       Folders: flat, sheet, source or date (default ${DEFAULT_FOLDER_LAYOUT.mode})
+  --dedupe <mode>       Attendees in several files: name, nameAndUrl or off (default ${DEFAULT_DEDUPE_SETTINGS.mode})
+  -q, --quiet           Only print the summary
+  -h, --help            Show this help
+
+Exit codes: 0 all selected photos downloaded, 1 some downloads failed,
+2 invalid arguments or input.`;
+
+const REPORT_FORMATS: ReportFormat[] = ['csv', 'xlsx', 'json'];
+const LAYOUT_MODES: FolderLayout['mode'][] = ['flat', 'sheet', 'source', 'date'];
+const DEDUPE_MODES = ['name', 'nameAndUrl', 'off'] as const;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Bad arguments or unreadable input; reported without a stack trace */
+class UsageError extends Error {}
+
+const positiveInt = (value: string | undefined, fallback: number, name: string): number => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) throw new UsageError(`--${name} must be a positive whole number`);
+  return n;
+};
+
+const nonNegative = (value: string | undefined, fallback: number, name: string): number => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!(n >= 0)) throw new UsageError(`--${name} must be a number, 0 or more`);
+  return n;
+};
+
+const oneOf = <T extends string>(value: string | undefined, allowed: readonly T[], fallback: T, name: string): T => {
+  if (value === undefined) return fallback;
+  if (!allowed.includes(value as T)) throw new UsageError(`--${name} must be one of ${allowed.join(', ')}`);
+  return value as T;
+};
+
+const createFileSink = async (path: string): Promise<ZipSink> => {
+  const handle = await open(path, 'w');
+  return {
+    write: async (chunk) => { await handle.write(chunk); },
+    close: () => handle.close(),
+    abort: async () => {
+      await handle.close();
+      await rm(path, { force: true });
+    }
+  };
+};
+
+const writeBlob = async (path: string, data: Blob | string) => {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, typeof data === 'string' ? data : new Uint8Array(await data.arrayBuffer()));
+};
+
+/**
+ * Writes images to `dir` using the same paths they would get in the ZIP.
+ */
+const writeFolder = async (tasks: ImageTask[], dir: string) => {
+  const summary: ProcessingSummary = { files: 0, processed: 0, failed: 0, originalBytes: 0, outputBytes: 0 };
+  const completed = tasks.filter(t => t.status === 'completed' && t.blob);
+  const entries = await prepareImageEntries(completed, DEFAULT_PROCESSING, DEFAULT_OUTPUT_FORMAT, new Set(), summary);
+  const written = new Map<string, string>();
+  for (const entry of entries) {
+    await writeBlob(join(dir, entry.path), entry.data);
+    if (entry.taskId) written.set(entry.taskId, entry.path);
+  }
+  const collisionReport = buildCollisionReport(tasks);
+  if (collisionReport) await writeBlob(join(dir, 'collisions_report.csv'), collisionReport);
+  return { summary, written };
+};
+
+async function run(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      sheet: { type: 'string', multiple: true },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      'include-undated': { type: 'boolean' },
+      concurrency: { type: 'string' },
+      'per-host': { type: 'string' },
+      rate: { type: 'string' },
+      'no-backoff': { type: 'boolean' },
+      retries: { type: 'string' },
+      timeout: { type: 'string' },
+      'max-mb': { type: 'string' },
+      out: { type: 'string' },
+      zip: { type: 'string' },
+      'max-part-mb': { type: 'string' },
+      report: { type: 'string' },
+      template: { type: 'string' },
+      layout: { type: 'string' },
+      dedupe: { type: 'string' },
+      quiet: { type: 'boolean', short: 'q' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length === 0) throw new UsageError('No input files given');
+  if (values.out && values.zip) throw new UsageError('Use either --out or --zip, not both');
+  for (const name of ['from', 'to'] as const) {
+    if (values[name] && !DATE_PATTERN.test(values[name]!)) throw new UsageError(`--${name} must be a date like 2024-03-31`);
+  }
+
+  const rate = nonNegative(values.rate, DEFAULT_SCHEDULER.requestsPerSecond, 'rate');
+  const scheduler = {
+    ...DEFAULT_SCHEDULER,
+    concurrency: positiveInt(values.concurrency, DEFAULT_SCHEDULER.concurrency, 'concurrency'),
+    perHostConcurrency: positiveInt(values['per-host'], DEFAULT_SCHEDULER.perHostConcurrency, 'per-host'),
+    requestsPerSecond: rate,
+    adaptive: !values['no-backoff']
+  };
+  const retryPolicy = { ...DEFAULT_RETRY_POLICY, maxAttempts: positiveInt(values.retries, DEFAULT_RETRY_POLICY.maxAttempts, 'retries') };
+  const responsePolicy = {
+    ...DEFAULT_RESPONSE_POLICY,
+    timeoutMs: nonNegative(values.timeout, DEFAULT_RESPONSE_POLICY.timeoutMs / 1000, 'timeout') * 1000,
+    maxBytes: Math.round(nonNegative(values['max-mb'], DEFAULT_RESPONSE_POLICY.maxBytes / 1024 / 1024, 'max-mb') * 1024 * 1024)
+  };
+  const maxPartMB = positiveInt(values['max-part-mb'], DEFAULT_ZIP_EXPORT.maxPartMB, 'max-part-mb');
+  const reportFormat = oneOf(values.report, REPORT_FORMATS, 'csv', 'report');
+  const layout = { ...DEFAULT_FOLDER_LAYOUT, mode: oneOf(values.layout, LAYOUT_MODES, DEFAULT_FOLDER_LAYOUT.mode, 'layout') };
+  const dedupe = { ...DEFAULT_DEDUPE_SETTINGS, mode: oneOf(values.dedupe, DEDUPE_MODES, DEFAULT_DEDUPE_SETTINGS.mode, 'dedupe') };
+  const template = { ...DEFAULT_TEMPLATE, pattern: values.template ?? DEFAULT_TEMPLATE.pattern };
+  const log = (message: string) => { if (!values.quiet) console.error(message); };
+
+  // Input
+  const files: File[] = [];
+  for (const path of positionals) {
+    try {
+      files.push(new File([await readFile(path)], basename(path)));
+    } catch {
+      throw new UsageError(`Cannot read ${path}`);
+    }
+  }
+  const sheets = await readInputFiles(files);
+  const mappings = Object.fromEntries(sheets.map(sheet => [sheet.name, resolveInitialMapping(sheet)]));
+  const { tasks: built, mappedSheets, skippedSheets } = buildBatchTasks(sheets, mappings, files.length > 1 ? dedupe : undefined);
+  skippedSheets.forEach(name => log(`Skipping sheet "${name}": no name or photo URL column recognized`));
+
+  const unknownSheets = (values.sheet ?? []).filter(name => !mappedSheets.includes(name));
+  if (unknownSheets.length > 0) {
+    throw new UsageError(`Unknown sheet ${unknownSheets.map(s => `"${s}"`).join(', ')}; available: ${mappedSheets.join(', ')}`);
+  }
+  const templateErrors = validateTemplate(template, Array.from(new Set(sheets.flatMap(s => s.headers))));
+  if (templateErrors.length > 0) throw new UsageError(`Invalid --template: ${templateErrors.join('; ')}`);
+
+  const selected = applySelectionFilter(built, {
+    sheets: new Set(values.sheet ?? mappedSheets),
+    startDate: values.from ?? '',
+    endDate: values.to ?? '',
+    includeUndated: values['include-undated']
+  });
+  let tasks = applyOutputPaths(selected, template, layout, DEFAULT_COLLISION_SETTINGS);
+  const queue = tasks.filter(t => t.status === 'pending' && t.isSelected);
+  if (queue.length === 0) throw new UsageError('No rows match the input and filters');
+
+  // Download
+  log(`Downloading ${queue.length} photos from ${mappedSheets.length} sheets`);
+  const results = new Map<string, ImageTask>();
+  const control = createQueueControl();
+  process.once('SIGINT', () => control.cancel());
+  await downloadTasks(queue, {
+    scheduler,
+    retryPolicy,
+    responsePolicy,
+    fetchMode: 'direct',
+    control,
+    onResult: result => {
+      results.set(result.id, result);
+      if (result.status === 'failed') log(`[${results.size}/${queue.length}] ${result.fullName}: ${result.error}`);
+      else if (results.size % 50 === 0) log(`[${results.size}/${queue.length}]`);
+    }
+  });
+  tasks = tasks.map(t => results.get(t.id) ?? t);
+  if (control.cancelled) log('Interrupted; writing what was downloaded so far');
+
+  // Output
+  let written: Map<string, string>;
+  let summary: ProcessingSummary;
+  let reportDir: string;
+  let baseName: string;
+  if (values.out) {
+    reportDir = resolve(values.out);
+    baseName = batchBaseName();
+    ({ summary, written } = await writeFolder(tasks, reportDir));
+    log(`Wrote ${summary.files} images (${formatBytes(summary.outputBytes)}) to ${reportDir}`);
+  } else {
+    const zipPath = resolve(values.zip ?? `${batchBaseName()}.zip`);
+    reportDir = dirname(zipPath);
+    baseName = basename(zipPath).replace(/\.zip$/i, '');
+    ({ summary, written } = await writeArchive(tasks, {
+      baseName,
+      maxPartMB,
+      processing: DEFAULT_PROCESSING,
+      output: DEFAULT_OUTPUT_FORMAT,
+      openSink: filename => createFileSink(join(reportDir, filename)),
+      onProgress: p => { if (p.phase === 'writing' && p.percent === 100) log(`Wrote ZIP part ${p.part} of ${p.parts}`); }
+    }));
+    log(`Zipped ${summary.files} images (${formatBytes(summary.outputBytes)}) into ${reportDir}`);
+  }
+  const reportPath = join(reportDir, reportFilename(baseName, reportFormat));
+  await writeBlob(reportPath, buildReport(tasks, reportFormat, written));
+
+  const count = (status: ImageTask['status']) => tasks.filter(t => t.isSelected && t.status === status).length;
+  const failed = count('failed');
+  console.log(`Completed: ${count('completed')}, failed: ${failed}, skipped: ${count('skipped')}, not started: ${count('pending')}. Report: ${reportPath}`);
+  return failed > 0 || control.cancelled ? 1 : 0;
+}
+
+run(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  err => {
+    if (err instanceof UsageError || (err as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error(`${err.message}\n\nRun with --help for usage.`);
+    } else {
+      console.error(err);
+    }
+    process.exitCode = 2;
+  }
+);
@@ -0,0 +1,155 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ListChecks, Upload } from 'lucide-react';
+import { ImageTask, ListMatchMode } from '../types';
+import { LIST_MATCH_MODES, ListMatch, matchAttendeeList, parseAttendeeList } from '../services/attendeeList';
+import { decodeText, parseDelimited } from '../services/inputSources';
+
+interface AttendeeListPanelProps {
+  tasks: ImageTask[];
+  onSetSelection: (ids: string[], selected: boolean) => void;
+}
+
+const inputClass = "bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-blue-500 outline-none dark:text-white";
+const labelClass = "text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider";
+
+const AttendeeListPanel: React.FC<AttendeeListPanelProps> = ({ tasks, onSetSelection }) => {
+  const [text, setText] = useState('');
+  const [mode, setMode] = useState<ListMatchMode>('case-insensitive');
+  const [replaceSelection, setReplaceSelection] = useState(true);
+  const [results, setResults] = useState<ListMatch[] | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedIds = useMemo(() => new Set(tasks.filter(t => t.isSelected).map(t => t.id)), [tasks]);
+
+  const handleFile = async (file: File) => {
+    try {
+      const content = decodeText(await file.arrayBuffer());
+      // Spreadsheet exports become tab-separated lines, the same as a copied range
+      setText(/\.(csv|tsv)$/i.test(file.name) ? parseDelimited(content).map(row => row.join('\t')).join('\n') : content);
+      setResults(null);
+    } catch (err) {
+      console.error(err);
+      alert("Could not read the list file.");
+    }
+  };
+
+  const handleMatch = () => {
+    const matched = matchAttendeeList(parseAttendeeList(text), tasks, mode);
+    // Entries with several matches are left for the user to pick from
+    const ids = new Set(matched.filter(m => m.matches.length === 1).map(m => m.matches[0].id));
+    if (replaceSelection) onSetSelection(tasks.filter(t => !ids.has(t.id)).map(t => t.id), false);
+    onSetSelection(Array.from(ids), true);
+    setResults(matched);
+  };
+
+  const unique = results?.filter(m => m.matches.length === 1) ?? [];
+  const fuzzy = unique.filter(m => m.mode === 'fuzzy');
+  const ambiguous = results?.filter(m => m.matches.length > 1) ?? [];
+  const missing = results?.filter(m => m.matches.length === 0) ?? [];
+
+  return (
+    <div className="bg-slate-50/50 dark:bg-slate-800/50 p-6 rounded-2xl border border-slate-200 dark:border-slate-700 space-y-3">
+      <div className="flex items-center gap-2 text-slate-800 dark:text-white font-bold">
+        <ListChecks className="w-5 h-5 text-blue-500" />
+        <h3>Select from a List</h3>
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => { setText(e.target.value); setResults(null); }}
+        rows={4}
+        spellCheck={false}
+        placeholder={"Names, emails or registration IDs, one per line\nJane Doe\njohn.smith@example.com"}
+        className={`${inputClass} w-full font-mono`}
+      />
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600 dark:text-slate-300">
+        <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+          <Upload className="w-3.5 h-3.5" /> Upload list
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".txt,.csv,.tsv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+        <select value={mode} onChange={(e) => { setMode(e.target.value as ListMatchMode); setResults(null); }} className={`${inputClass} ml-auto`}>
+          {LIST_MATCH_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+        </select>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-1.5 text-xs text-slate-600 dark:text-slate-300">
+          <input type="checkbox" checked={replaceSelection} onChange={(e) => setReplaceSelection(e.target.checked)} />
+          Deselect everyone else
+        </label>
+        <button
+          onClick={handleMatch}
+          disabled={!text.trim() || tasks.length === 0}
+          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-xs font-bold rounded-lg disabled:opacity-50"
+        >
+          Select Matches
+        </button>
+      </div>
+
+      {results && (
+        <div className="space-y-3 pt-3 border-t border-slate-200 dark:border-slate-700 text-xs">
+          <p className="text-slate-600 dark:text-slate-300">
+            <span className="font-bold text-emerald-600 dark:text-emerald-400">{unique.length} selected</span>
+            {ambiguous.length > 0 && <> · <span className="font-bold text-amber-600 dark:text-amber-400">{ambiguous.length} with several matches</span></>}
+            {missing.length > 0 && <> · <span className="font-bold text-rose-600 dark:text-rose-400">{missing.length} not found</span></>}
+          </p>
+
+          {ambiguous.length > 0 && (
+            <div className="space-y-1.5">
+              <label className={labelClass}>Several Matches — pick the right ones</label>
+              {ambiguous.map(m => (
+                <div key={m.entry.label}>
+                  <p className="font-semibold text-slate-700 dark:text-slate-200 truncate" title={m.entry.label}>{m.entry.label}</p>
+                  <div className="flex flex-wrap gap-1 mt-0.5">
+                    {m.matches.map(task => (
+                      <button
+                        key={task.id}
+                        onClick={() => onSetSelection([task.id], !selectedIds.has(task.id))}
+                        title={task.url}
+                        className={`px-1.5 py-0.5 rounded border text-[11px] ${selectedIds.has(task.id)
+                          ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 border-blue-200 dark:border-blue-800'
+                          : 'bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700'}`}
+                      >
+                        {task.fullName} · {task.sheet} · row {task.rowIndex + 1}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {fuzzy.length > 0 && (
+            <div className="space-y-1">
+              <label className={labelClass}>Matched Loosely — check these</label>
+              <ul className="space-y-0.5 text-slate-600 dark:text-slate-300">
+                {fuzzy.map(m => (
+                  <li key={m.entry.label} className="truncate">{m.entry.label} → <span className="font-semibold">{m.matches[0].fullName}</span></li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {missing.length > 0 && (
+            <div className="space-y-1">
+              <label className={labelClass}>Not Found</label>
+              <ul className="max-h-32 overflow-y-auto custom-scrollbar space-y-0.5 text-rose-600 dark:text-rose-400">
+                {missing.map(m => <li key={m.entry.label} className="truncate">{m.entry.label}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttendeeListPanel;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import AttendeeTable, { OVERSCAN, ROW_HEIGHT, visibleRange } from './AttendeeTable';
+import { makeTask } from '../services/testUtils';
+
+const ROW_COUNT = 5000;
+const VIEWPORT = 600;
+const maxMounted = Math.ceil(VIEWPORT / ROW_HEIGHT) + 2 * OVERSCAN + 1;
+
+describe('visibleRange', () => {
+  it('limits a long list to the rows in view plus overscan', () => {
+    [0, 12345, (ROW_COUNT - 5) * ROW_HEIGHT].forEach(scrollTop => {
+      const { first, last } = visibleRange(ROW_COUNT, scrollTop, VIEWPORT);
+      expect(last - first).toBeLessThanOrEqual(maxMounted);
+      expect(first * ROW_HEIGHT).toBeLessThanOrEqual(scrollTop);
+      expect(last * ROW_HEIGHT).toBeGreaterThanOrEqual(Math.min(scrollTop + VIEWPORT, ROW_COUNT * ROW_HEIGHT));
+    });
+  });
+});
+
+describe('AttendeeTable', () => {
+  it('mounts only a window of rows for several thousand attendees', () => {
+    const tasks = Array.from({ length: ROW_COUNT }, (_, i) => makeTask(`t${i}`, { rowIndex: i, fullName: `Attendee ${i}` }));
+    const html = renderToString(<AttendeeTable tasks={tasks} issuesByTask={new Map()} onToggle={() => {}} onSetSelection={() => {}} />);
+
+    const mounted = html.match(/Attendee \d+/g) ?? [];
+    expect(mounted.length).toBeGreaterThan(0);
+    expect(new Set(mounted).size).toBeLessThanOrEqual(maxMounted);
+  });
+});
@@ -0,0 +1,301 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, CheckSquare, Search, Square, X } from 'lucide-react';
+import { ImageTask, ValidationIssue } from '../types';
+
+interface AttendeeTableProps {
+  tasks: ImageTask[];
+  issuesByTask: Map<string, ValidationIssue[]>;
+  onToggle: (id: string) => void;
+  onSetSelection: (ids: string[], selected: boolean) => void;
+}
+
+type SortKey = 'row' | 'name' | 'sheet' | 'date' | 'status';
+type StatusFilter = 'all' | ImageTask['status'];
+
+const SORT_OPTIONS: { value: SortKey; label: string }[] = [
+  { value: 'row', label: 'File order' },
+  { value: 'name', label: 'Name' },
+  { value: 'sheet', label: 'Sheet' },
+  { value: 'date', label: 'Date' },
+  { value: 'status', label: 'Status' }
+];
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'downloading', label: 'Downloading' },
+  { value: 'completed', label: 'Done' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'skipped', label: 'Skipped' }
+];
+
+// Problems first when sorting by status
+const STATUS_ORDER: Record<ImageTask['status'], number> = { failed: 0, downloading: 1, pending: 2, skipped: 3, completed: 4 };
+
+// Rows have a fixed height so the visible slice can be computed from the scroll offset
+export const ROW_HEIGHT = 64;
+export const OVERSCAN = 8;
+
+/**
+ * Rows to render for a scroll position: those in view plus OVERSCAN either
+ * side. The scroller must have a bounded height for this to limit anything.
+ */
+export function visibleRange(rowCount: number, scrollTop: number, viewportHeight: number): { first: number; last: number } {
+  return {
+    first: Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN),
+    last: Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN)
+  };
+}
+
+const collator = new Intl.Collator(undefined, { sensitivity: 'base', numeric: true });
+
+const compareBy: Record<Exclude<SortKey, 'date'>, (a: ImageTask, b: ImageTask) => number> = {
+  row: () => 0,
+  name: (a, b) => collator.compare(a.fullName, b.fullName),
+  sheet: (a, b) => collator.compare(a.sheet, b.sheet) || a.rowIndex - b.rowIndex,
+  status: (a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status]
+};
+
+// Rows without a date go last either way round, so the direction only applies between dated rows
+const compareDates = (a: ImageTask, b: ImageTask, descending: boolean): number => {
+  const x = a.registrationDate?.getTime();
+  const y = b.registrationDate?.getTime();
+  if (x === undefined || y === undefined) return x === y ? 0 : x === undefined ? 1 : -1;
+  return descending ? y - x : x - y;
+};
+
+const sameIssues = (a: ValidationIssue[] | undefined, b: ValidationIssue[] | undefined) =>
+  a === b || (a?.length === b?.length && !!a && a.every((issue, i) => issue.message === b![i].message));
+
+const checkboxButton = "text-blue-600 dark:text-blue-500";
+const chipClass = (active: boolean) => `px-2 py-1 rounded-lg text-[11px] font-semibold transition-all border ${
+  active
+    ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 border-blue-200 dark:border-blue-800'
+    : 'bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:border-slate-300'
+}`;
+
+export const StatusBadge: React.FC<{ status: ImageTask['status'] }> = ({ status }) => {
+  const styles = {
+    completed: "bg-emerald-100 text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-400",
+    failed: "bg-rose-100 text-rose-700 dark:bg-rose-500/20 dark:text-rose-400",
+    downloading: "bg-blue-100 text-blue-700 dark:bg-blue-500/20 dark:text-blue-400",
+    pending: "bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400",
+    skipped: "bg-amber-100 text-amber-700 dark:bg-amber-500/20 dark:text-amber-400"
+  };
+
+  const labels = {
+    completed: "Done",
+    failed: "Error",
+    downloading: "Busy",
+    pending: "Queue",
+    skipped: "Skip"
+  };
+
+  return (
+    <span className={`inline-flex items-center px-2.5 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider ${styles[status] || styles.pending}`}>
+      {labels[status]}
+    </span>
+  );
+};
+
+interface RowProps {
+  task: ImageTask;
+  issues?: ValidationIssue[];
+  onClick: (task: ImageTask, shiftKey: boolean) => void;
+}
+
+// Unchanged tasks keep their object identity, so only rows whose task changed re-render
+const AttendeeRow = React.memo<RowProps>(({ task, issues, onClick }) => (
+  <tr style={{ height: ROW_HEIGHT }} className={`group hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors ${!task.isSelected ? 'opacity-50 grayscale' : ''}`}>
+    <td className="px-3">
+      <button
+        // Keeps shift-click from selecting the page text
+        onMouseDown={(e) => e.shiftKey && e.preventDefault()}
+        onClick={(e) => onClick(task, e.shiftKey)}
+        className={checkboxButton}
+      >
+        {task.isSelected ? <CheckSquare className="w-5 h-5" /> : <Square className="w-5 h-5 text-slate-300 dark:text-slate-600" />}
+      </button>
+    </td>
+    <td className="px-3">
+      <div className="flex items-center gap-3">
+        <div className="w-8 h-8 shrink-0 rounded-full bg-slate-100 dark:bg-slate-700 flex items-center justify-center text-xs font-bold text-slate-500">
+          {task.fullName.charAt(0)}
+        </div>
+        <div className="min-w-0">
+          <p className="text-sm font-bold text-slate-800 dark:text-slate-200 truncate">{task.fullName}</p>
+          <div className="flex items-center gap-2 text-[10px] text-slate-400 mt-0.5 whitespace-nowrap">
+            <span className="bg-slate-100 dark:bg-slate-900 px-1.5 py-0.5 rounded text-slate-500 dark:text-slate-400">{task.sheet}</span>
+            <span>{task.registrationDate ? task.registrationDate.toLocaleDateString() : 'No Date'}</span>
+            <span className="font-mono truncate max-w-[240px]" title={task.filename}>{task.filename}</span>
+            {issues && (
+              <span
+                title={issues.map(i => i.message).join('\n')}
+                className={`px-1.5 py-0.5 rounded font-bold uppercase ${issues.some(i => i.severity === 'error')
+                  ? 'bg-rose-100 dark:bg-rose-500/20 text-rose-700 dark:text-rose-400'
+                  : 'bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-400'}`}
+              >
+                Check
+              </span>
+            )}
+            {task.collision && (
+              <span
+                title={`${task.collision.groupSize} attendees rendered to ${task.collision.baseFilename}`}
+                className="bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-400 px-1.5 py-0.5 rounded font-bold uppercase"
+              >
+                Duplicate
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+    </td>
+    <td className="px-3 text-right" title={task.error}>
+      <StatusBadge status={task.status} />
+    </td>
+  </tr>
+), (prev, next) => prev.task === next.task && prev.onClick === next.onClick && sameIssues(prev.issues, next.issues));
+
+const AttendeeTable: React.FC<AttendeeTableProps> = ({ tasks, issuesByTask, onToggle, onSetSelection }) => {
+  const [query, setQuery] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('row');
+  const [descending, setDescending] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  // Last row clicked without shift, where a shift-click range starts
+  const anchorRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+    const observer = new ResizeObserver(() => setViewportHeight(scroller.clientHeight));
+    observer.observe(scroller);
+    return () => observer.disconnect();
+  }, []);
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<string, number> = { all: tasks.length };
+    tasks.forEach(t => { counts[t.status] = (counts[t.status] || 0) + 1; });
+    return counts;
+  }, [tasks]);
+
+  const rows = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const filtered = tasks.filter(t =>
+      (statusFilter === 'all' || t.status === statusFilter) &&
+      (!needle || t.fullName.toLowerCase().includes(needle) || t.url.toLowerCase().includes(needle) || t.filename.toLowerCase().includes(needle))
+    );
+    if (sortKey === 'row') return descending ? filtered.reverse() : filtered;
+    // Array sort is stable, so ties keep file order
+    if (sortKey === 'date') return filtered.sort((a, b) => compareDates(a, b, descending));
+    const compare = compareBy[sortKey];
+    return filtered.sort((a, b) => descending ? compare(b, a) : compare(a, b));
+  }, [tasks, query, statusFilter, sortKey, descending]);
+
+  // Read through a ref so the row click handler keeps its identity and memoized rows stay put
+  const rowsRef = useRef(rows);
+  rowsRef.current = rows;
+
+  const handleRowClick = useCallback((task: ImageTask, shiftKey: boolean) => {
+    const current = rowsRef.current;
+    const anchor = shiftKey && anchorRef.current ? current.findIndex(t => t.id === anchorRef.current) : -1;
+    if (anchor === -1) {
+      anchorRef.current = task.id;
+      onToggle(task.id);
+      return;
+    }
+    const index = current.findIndex(t => t.id === task.id);
+    const range = current.slice(Math.min(anchor, index), Math.max(anchor, index) + 1);
+    onSetSelection(range.map(t => t.id), !task.isSelected);
+  }, [onToggle, onSetSelection]);
+
+  const { first, last } = visibleRange(rows.length, scrollTop, viewportHeight);
+  const filtering = query.trim() !== '' || statusFilter !== 'all';
+
+  return (
+    <div className="lg:col-span-8 flex flex-col h-[70vh] min-h-[420px] lg:h-[calc(100vh-8rem)] overflow-hidden bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700">
+      <div className="p-4 border-b border-slate-100 dark:border-slate-700 space-y-3 bg-slate-50/50 dark:bg-slate-900/50 backdrop-blur">
+        <div className="flex justify-between items-center">
+          <h3 className="font-bold text-slate-700 dark:text-slate-200">
+            Attendee List
+            {filtering && <span className="ml-2 text-xs font-medium text-slate-400">{rows.length} of {tasks.length}</span>}
+          </h3>
+          <div className="flex gap-2">
+            <button onClick={() => onSetSelection(rows.map(t => t.id), true)} className="text-xs font-semibold text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/30 px-2 py-1 rounded">
+              {filtering ? 'Select Shown' : 'Select All'}
+            </button>
+            <button onClick={() => onSetSelection(rows.map(t => t.id), false)} className="text-xs font-semibold text-slate-500 hover:bg-slate-50 dark:hover:bg-slate-700 px-2 py-1 rounded">
+              {filtering ? 'Clear Shown' : 'Clear'}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative flex-1 min-w-[180px]">
+            <Search className="w-3.5 h-3.5 absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="text"
+              value={query}
+              placeholder="Search name, URL or filename"
+              onChange={(e) => setQuery(e.target.value)}
+              className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg pl-8 pr-7 py-1.5 text-xs focus:ring-2 focus:ring-blue-500 outline-none dark:text-white"
+            />
+            {query && (
+              <button onClick={() => setQuery('')} title="Clear search" className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+          <select
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value as SortKey)}
+            className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-blue-500 outline-none dark:text-white"
+          >
+            {SORT_OPTIONS.map(o => <option key={o.value} value={o.value}>Sort: {o.label}</option>)}
+          </select>
+          <button
+            onClick={() => setDescending(!descending)}
+            title={descending ? 'Descending' : 'Ascending'}
+            className="p-1.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-500 hover:text-blue-600"
+          >
+            {descending ? <ArrowDown className="w-3.5 h-3.5" /> : <ArrowUp className="w-3.5 h-3.5" />}
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-1.5">
+          {STATUS_FILTERS.filter(f => f.value === 'all' || statusCounts[f.value] || statusFilter === f.value).map(f => (
+            <button key={f.value} onClick={() => setStatusFilter(f.value)} className={chipClass(statusFilter === f.value)}>
+              {f.label} <span className="opacity-60">{statusCounts[f.value] || 0}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div ref={scrollerRef} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)} className="flex-1 min-h-0 overflow-y-auto custom-scrollbar p-2">
+        <table className="w-full text-left border-collapse table-fixed">
+          <thead className="sticky top-0 bg-white dark:bg-slate-800 z-10 shadow-sm">
+            <tr>
+              <th className="p-3 w-12"></th>
+              <th className="p-3 text-xs font-bold text-slate-400 uppercase">Details</th>
+              <th className="p-3 w-24 text-xs font-bold text-slate-400 uppercase text-right">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {first > 0 && <tr style={{ height: first * ROW_HEIGHT }} />}
+            {rows.slice(first, last).map(task => (
+              <AttendeeRow key={task.id} task={task} issues={issuesByTask.get(task.id)} onClick={handleRowClick} />
+            ))}
+            {last < rows.length && <tr style={{ height: (rows.length - last) * ROW_HEIGHT }} />}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <p className="p-8 text-center text-sm text-slate-400">No attendees match the search and filters.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AttendeeTable;
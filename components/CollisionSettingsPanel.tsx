@@ -0,0 +1,42 @@
+import React from 'react';
+import { Copy } from 'lucide-react';
+import { CollisionSettings } from '../types';
+
+interface CollisionSettingsPanelProps {
+  settings: CollisionSettings;
+  columns: string[];
+  /** Number of attendees whose filename clashed with someone else's */
+  duplicateCount: number;
+  onChange: (settings: CollisionSettings) => void;
+}
+
+const selectClass = "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-blue-500 outline-none dark:text-white";
+
+const CollisionSettingsPanel: React.FC<CollisionSettingsPanelProps> = ({ settings, columns, duplicateCount, onChange }) => (
+  <div className="space-y-2 pt-4 border-t border-slate-200 dark:border-slate-700">
+    <div className="flex justify-between items-center">
+      <div className="flex items-center gap-2">
+        <Copy className="w-4 h-4 text-amber-500" />
+        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Duplicate Filenames</label>
+      </div>
+      <span className={`text-[11px] font-semibold ${duplicateCount > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-slate-400'}`}>
+        {duplicateCount > 0 ? `${duplicateCount} affected` : 'None'}
+      </span>
+    </div>
+    <div className="grid grid-cols-2 gap-2">
+      <select value={settings.strategy} onChange={(e) => onChange({ ...settings, strategy: e.target.value as CollisionSettings['strategy'] })} className={selectClass}>
+        <option value="suffix">Add number (-2, -3)</option>
+        <option value="column">Append column value</option>
+        <option value="skip">Skip duplicates</option>
+      </select>
+      {settings.strategy === 'column' && (
+        <select value={settings.column || ''} onChange={(e) => onChange({ ...settings, column: e.target.value || undefined })} className={selectClass}>
+          <option value="">— Select column —</option>
+          {columns.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+      )}
+    </div>
+  </div>
+);
+
+export default CollisionSettingsPanel;
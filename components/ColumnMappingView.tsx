@@ -0,0 +1,134 @@
+import React from 'react';
+import { AlertCircle, ArrowRight, CheckCircle2, Columns3, Copy } from 'lucide-react';
+import { ColumnMapping, ParsedSheet } from '../types';
+import { getMappingIssue } from '../services/columnMapping';
+
+interface ColumnMappingViewProps {
+  sheets: ParsedSheet[];
+  mappings: Record<string, ColumnMapping>;
+  onChange: (sheet: string, mapping: ColumnMapping) => void;
+  onConfirm: () => void;
+  /** Extra settings shown above the sheet list */
+  children?: React.ReactNode;
+}
+
+const selectClass = "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none dark:text-white";
+const labelClass = "text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider";
+
+const ColumnSelect: React.FC<{
+  label: string;
+  value?: string;
+  headers: string[];
+  optional?: boolean;
+  onChange: (value: string | undefined) => void;
+}> = ({ label, value, headers, optional, onChange }) => (
+  <div className="space-y-1.5">
+    <label className={labelClass}>{label}</label>
+    <select value={value || ''} onChange={(e) => onChange(e.target.value || undefined)} className={selectClass}>
+      <option value="">{optional ? '— None —' : '— Select column —'}</option>
+      {headers.map(h => <option key={h} value={h}>{h}</option>)}
+    </select>
+  </div>
+);
+
+const ColumnMappingView: React.FC<ColumnMappingViewProps> = ({ sheets, mappings, onChange, onConfirm, children }) => {
+  const issues = sheets.map(sheet => ({ sheet: sheet.name, issue: getMappingIssue(sheet, mappings[sheet.name]) }));
+  const unmapped = issues.filter(i => i.issue);
+  const mappedCount = sheets.length - unmapped.length;
+
+  const applyToMatching = (source: ParsedSheet) => {
+    const mapping = mappings[source.name];
+    sheets.forEach(sheet => {
+      if (sheet.name !== source.name && !getMappingIssue(sheet, mapping)) onChange(sheet.name, mapping);
+    });
+  };
+
+  return (
+    <div className="p-6 md:p-8 space-y-6 animate-in slide-in-from-right-4 duration-300">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Columns3 className="w-6 h-6 text-blue-500" />
+          <div>
+            <h2 className="text-xl font-bold text-slate-800 dark:text-white">Map Columns</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400">Tell us which columns hold the attendee name, photo URL and registration date.</p>
+          </div>
+        </div>
+        <button
+          onClick={onConfirm}
+          disabled={mappedCount === 0}
+          className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-xl shadow-lg shadow-blue-500/25 transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed disabled:shadow-none"
+        >
+          Continue with {mappedCount} of {sheets.length} sheets <ArrowRight className="w-4 h-4" />
+        </button>
+      </div>
+
+      {unmapped.length > 0 && (
+        <div className="p-4 rounded-2xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-300">
+          <p className="font-bold mb-1">These sheets cannot be mapped yet and will be skipped:</p>
+          <ul className="list-disc list-inside">
+            {unmapped.map(u => <li key={u.sheet}><span className="font-semibold">{u.sheet}</span> — {u.issue}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {children}
+
+      <div className="space-y-4 max-h-[520px] overflow-y-auto custom-scrollbar pr-1">
+        {sheets.map(sheet => {
+          const mapping = mappings[sheet.name];
+          const issue = issues.find(i => i.sheet === sheet.name)?.issue;
+          const update = (patch: Partial<ColumnMapping>) => onChange(sheet.name, { ...mapping, ...patch });
+
+          return (
+            <div key={sheet.name} className="bg-slate-50/50 dark:bg-slate-800/50 p-5 rounded-2xl border border-slate-200 dark:border-slate-700 space-y-4">
+              <div className="flex justify-between items-center">
+                <div className="flex items-center gap-2">
+                  {issue
+                    ? <AlertCircle className="w-5 h-5 text-amber-500" />
+                    : <CheckCircle2 className="w-5 h-5 text-emerald-500" />}
+                  <h3 className="font-bold text-slate-800 dark:text-white">{sheet.name}</h3>
+                  <span className="text-xs text-slate-400">
+                    {sheet.headerRowIndex === -1 ? 'No headers' : `Headers on row ${sheet.headerRowIndex + 1} · ${sheet.rows.length} rows`}
+                  </span>
+                </div>
+                {!issue && sheets.length > 1 && (
+                  <button onClick={() => applyToMatching(sheet)} className="text-xs flex items-center gap-1 text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+                    <Copy className="w-3 h-3" /> Apply to other sheets
+                  </button>
+                )}
+              </div>
+
+              {sheet.headers.length > 0 && mapping && (
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div className="space-y-1.5">
+                    <label className={labelClass}>Name Source</label>
+                    <select
+                      value={mapping.nameMode}
+                      onChange={(e) => update({ nameMode: e.target.value as ColumnMapping['nameMode'] })}
+                      className={selectClass}
+                    >
+                      <option value="full">Single column</option>
+                      <option value="split">First + Last</option>
+                    </select>
+                  </div>
+                  {mapping.nameMode === 'full' ? (
+                    <ColumnSelect label="Full Name" value={mapping.fullName} headers={sheet.headers} onChange={v => update({ fullName: v })} />
+                  ) : (
+                    <div className="grid grid-cols-2 gap-2">
+                      <ColumnSelect label="First" value={mapping.firstName} headers={sheet.headers} onChange={v => update({ firstName: v })} />
+                      <ColumnSelect label="Last" value={mapping.lastName} headers={sheet.headers} onChange={v => update({ lastName: v })} />
+                    </div>
+                  )}
+                  <ColumnSelect label="Image URL" value={mapping.url} headers={sheet.headers} onChange={v => update({ url: v })} />
+                  <ColumnSelect label="Registration Date" value={mapping.registrationDate} headers={sheet.headers} optional onChange={v => update({ registrationDate: v })} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingView;
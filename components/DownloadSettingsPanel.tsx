@@ -0,0 +1,215 @@
+import React from 'react';
+import { Gauge, Network, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { FetchMode, HostLimit, RetryPolicy, SchedulerSettings } from '../types';
+
+interface DownloadSettingsPanelProps {
+  retryPolicy: RetryPolicy;
+  scheduler: SchedulerSettings;
+  fetchMode: FetchMode;
+  /** Whether the dev server's image proxy answered */
+  proxyAvailable: boolean;
+  disabled?: boolean;
+  onRetryPolicyChange: (policy: RetryPolicy) => void;
+  onSchedulerChange: (settings: SchedulerSettings) => void;
+  onFetchModeChange: (mode: FetchMode) => void;
+}
+
+const FETCH_MODES: { value: FetchMode; label: string }[] = [
+  { value: 'direct', label: 'Direct' },
+  { value: 'proxy', label: 'Via proxy' }
+];
+
+const inputClass = "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-blue-500 outline-none dark:text-white disabled:opacity-50";
+const labelClass = "text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider";
+
+const count = (value: string, max: number) => Math.min(max, Math.max(1, Math.round(Number(value)) || 1));
+const rate = (value: string) => Math.max(0, Number(value) || 0);
+
+const DownloadSettingsPanel: React.FC<DownloadSettingsPanelProps> = ({
+  retryPolicy, scheduler, fetchMode, proxyAvailable, disabled, onRetryPolicyChange, onSchedulerChange, onFetchModeChange
+}) => {
+  const updateHostLimit = (index: number, patch: Partial<HostLimit>) =>
+    onSchedulerChange({ ...scheduler, hostLimits: scheduler.hostLimits.map((l, i) => i === index ? { ...l, ...patch } : l) });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2">
+          <Network className="w-4 h-4 text-blue-500" />
+          <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Fetch</label>
+        </div>
+        <div className="flex gap-1.5">
+          {FETCH_MODES.map(m => (
+            <button
+              key={m.value}
+              disabled={disabled || (m.value === 'proxy' && !proxyAvailable && fetchMode !== 'proxy')}
+              onClick={() => onFetchModeChange(m.value)}
+              className={`px-2.5 py-1 rounded-lg text-[11px] font-semibold transition-all border disabled:opacity-50 ${
+                fetchMode === m.value
+                  ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 border-blue-200 dark:border-blue-800'
+                  : 'bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:border-slate-300'
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className={`text-[10px] ${fetchMode === 'proxy' && !proxyAvailable ? 'text-rose-600 dark:text-rose-400' : 'text-slate-400'}`}>
+        {proxyAvailable
+          ? 'The proxy fetches images through the dev server, for hosts that block cross-origin requests. Only hosts in IMAGE_PROXY_ALLOWED_HOSTS are proxied.'
+          : fetchMode === 'proxy'
+            ? 'This batch was set to use the proxy, but no proxy is running. Start the app with npm run dev or npm run preview, or switch back to Direct.'
+            : 'The image proxy is only available when the app runs through npm run dev or npm run preview.'}
+      </p>
+
+      <div className="flex items-center gap-2 pt-1">
+        <Gauge className="w-4 h-4 text-blue-500" />
+        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Limits</label>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <label className={labelClass}>Parallel</label>
+          <input
+            type="number"
+            min={1}
+            max={50}
+            value={scheduler.concurrency}
+            disabled={disabled}
+            onChange={(e) => onSchedulerChange({ ...scheduler, concurrency: count(e.target.value, 50) })}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Per Host</label>
+          <input
+            type="number"
+            min={1}
+            max={50}
+            value={scheduler.perHostConcurrency}
+            disabled={disabled}
+            onChange={(e) => onSchedulerChange({ ...scheduler, perHostConcurrency: count(e.target.value, 50) })}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Req/s per Host</label>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={scheduler.requestsPerSecond}
+            disabled={disabled}
+            onChange={(e) => onSchedulerChange({ ...scheduler, requestsPerSecond: rate(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {scheduler.hostLimits.map((limit, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={limit.host}
+            disabled={disabled}
+            spellCheck={false}
+            placeholder="*.example.com"
+            onChange={(e) => updateHostLimit(index, { host: e.target.value })}
+            className={`${inputClass} flex-1 font-mono`}
+          />
+          <input
+            type="number"
+            min={1}
+            max={50}
+            title="Parallel downloads"
+            value={limit.concurrency}
+            disabled={disabled}
+            onChange={(e) => updateHostLimit(index, { concurrency: count(e.target.value, 50) })}
+            className={`${inputClass} !w-14`}
+          />
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            title="Requests per second (0 = unlimited)"
+            value={limit.requestsPerSecond}
+            disabled={disabled}
+            onChange={(e) => updateHostLimit(index, { requestsPerSecond: rate(e.target.value) })}
+            className={`${inputClass} !w-14`}
+          />
+          <button
+            onClick={() => onSchedulerChange({ ...scheduler, hostLimits: scheduler.hostLimits.filter((_, i) => i !== index) })}
+            disabled={disabled}
+            title="Remove host limit"
+            className="p-1 rounded-lg text-slate-500 hover:text-rose-600 hover:bg-white dark:hover:bg-slate-700 disabled:opacity-40"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-slate-600 dark:text-slate-300">
+        <button
+          onClick={() => onSchedulerChange({
+            ...scheduler,
+            hostLimits: [...scheduler.hostLimits, { host: '', concurrency: scheduler.perHostConcurrency, requestsPerSecond: scheduler.requestsPerSecond }]
+          })}
+          disabled={disabled}
+          className="flex items-center gap-1 font-semibold text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+        >
+          <Plus className="w-3.5 h-3.5" /> Limit a host
+        </button>
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={scheduler.adaptive} disabled={disabled} onChange={(e) => onSchedulerChange({ ...scheduler, adaptive: e.target.checked })} />
+          Slow down on 429/5xx
+        </label>
+      </div>
+      <p className="text-[10px] text-slate-400">Req/s of 0 means unlimited. With slow-down on, a host that answers 429 or 5xx gets half the parallel downloads and a pause, then speeds up again as requests succeed.</p>
+
+      <div className="flex items-center gap-2 pt-1">
+        <RotateCcw className="w-4 h-4 text-blue-500" />
+        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Retries</label>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <label className={labelClass}>Attempts</label>
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={retryPolicy.maxAttempts}
+            disabled={disabled}
+            onChange={(e) => onRetryPolicyChange({ ...retryPolicy, maxAttempts: Math.min(10, Math.max(1, Number(e.target.value) || 1)) })}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>First Delay (s)</label>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={retryPolicy.baseDelayMs / 1000}
+            disabled={disabled}
+            onChange={(e) => onRetryPolicyChange({ ...retryPolicy, baseDelayMs: Math.max(0, Number(e.target.value) || 0) * 1000 })}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Max Delay (s)</label>
+          <input
+            type="number"
+            min={1}
+            value={retryPolicy.maxDelayMs / 1000}
+            disabled={disabled}
+            onChange={(e) => onRetryPolicyChange({ ...retryPolicy, maxDelayMs: Math.max(1, Number(e.target.value) || 1) * 1000 })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <p className="text-[10px] text-slate-400">Network errors, HTTP 429 and 5xx are retried with doubling delays; a server's Retry-After is honored.</p>
+    </div>
+  );
+};
+
+export default DownloadSettingsPanel;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { AlertCircle, FileType } from 'lucide-react';
+import { FilenameTemplate } from '../types';
+import { BUILTIN_TOKENS, MODIFIERS } from '../services/filenameTemplate';
+
+interface FilenameTemplateEditorProps {
+  template: FilenameTemplate;
+  columns: string[];
+  errors: string[];
+  preview: string[];
+  onChange: (template: FilenameTemplate) => void;
+}
+
+const selectClass = "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-blue-500 outline-none dark:text-white";
+
+const FilenameTemplateEditor: React.FC<FilenameTemplateEditorProps> = ({ template, columns, errors, preview, onChange }) => {
+  const insertToken = (token: string) => onChange({ ...template, pattern: `${template.pattern}{${token}}` });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <FileType className="w-4 h-4 text-blue-500" />
+        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Filename Template</label>
+      </div>
+
+      <input
+        type="text"
+        value={template.pattern}
+        onChange={(e) => onChange({ ...template, pattern: e.target.value })}
+        spellCheck={false}
+        className={`w-full bg-white dark:bg-slate-900 border rounded-lg px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-blue-500 outline-none dark:text-white ${errors.length ? 'border-rose-300 dark:border-rose-700' : 'border-slate-200 dark:border-slate-700'}`}
+      />
+
+      <div className="flex flex-wrap gap-1.5">
+        {BUILTIN_TOKENS.map(t => (
+          <button key={t.token} title={t.description} onClick={() => insertToken(t.token)} className="px-2 py-0.5 rounded text-[10px] font-mono font-semibold bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 hover:bg-blue-100">
+            {`{${t.token}}`}
+          </button>
+        ))}
+        {columns.map(c => (
+          <button key={c} title={`Column "${c}"`} onClick={() => insertToken(`col:${c}`)} className="px-2 py-0.5 rounded text-[10px] font-mono bg-slate-100 dark:bg-slate-900 text-slate-600 dark:text-slate-400 hover:bg-slate-200">
+            {c}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-400">
+        Modifiers: {MODIFIERS.map(m => `|${m}`).join(' ')} · use <span className="font-mono">/</span> for folders
+      </p>
+
+      <div className="grid grid-cols-3 gap-2">
+        <select value={template.case} onChange={(e) => onChange({ ...template, case: e.target.value as FilenameTemplate['case'] })} className={selectClass}>
+          <option value="preserve">Keep case</option>
+          <option value="lower">lowercase</option>
+          <option value="upper">UPPERCASE</option>
+        </select>
+        <select value={template.whitespace} onChange={(e) => onChange({ ...template, whitespace: e.target.value as FilenameTemplate['whitespace'] })} className={selectClass}>
+          <option value="keep">Keep spaces</option>
+          <option value="underscore">Spaces → _</option>
+          <option value="dash">Spaces → -</option>
+          <option value="remove">Remove spaces</option>
+        </select>
+        <label className="flex items-center gap-1.5 text-xs text-slate-600 dark:text-slate-300">
+          <input type="checkbox" checked={template.asciiOnly} onChange={(e) => onChange({ ...template, asciiOnly: e.target.checked })} />
+          ASCII only
+        </label>
+      </div>
+
+      {errors.length > 0 ? (
+        <ul className="text-[11px] text-rose-600 dark:text-rose-400 space-y-0.5">
+          {errors.map(err => <li key={err} className="flex items-start gap-1"><AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />{err}</li>)}
+        </ul>
+      ) : (
+        <div className="text-[11px] font-mono text-slate-500 dark:text-slate-400 space-y-0.5">
+          {preview.map((p, i) => <div key={i} className="truncate">{p}</div>)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FilenameTemplateEditor;
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Plus, Save, Trash2, X } from 'lucide-react';
+import { FilterCondition, FilterGroup, FilterPreset, RowFilter } from '../types';
+import { deleteFilterPreset, FILTER_OPERATORS, getConditionIssue, loadFilterPresets, saveFilterPreset } from '../services/rowFilter';
+
+interface FilterBuilderProps {
+  filter: RowFilter;
+  columns: string[];
+  /** The date settings saved along with the conditions in a preset */
+  dates: Pick<FilterPreset, 'startDate' | 'endDate' | 'includeUndated'>;
+  onChange: (filter: RowFilter) => void;
+  onApplyPreset: (preset: FilterPreset) => void;
+}
+
+const inputClass = "bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-blue-500 outline-none dark:text-white";
+
+const MatchToggle: React.FC<{ match: 'all' | 'any'; onChange: (match: 'all' | 'any') => void }> = ({ match, onChange }) => (
+  <span className="inline-flex rounded-md border border-slate-200 dark:border-slate-700 overflow-hidden text-[10px] font-bold uppercase">
+    {(['all', 'any'] as const).map(m => (
+      <button
+        key={m}
+        onClick={() => onChange(m)}
+        className={`px-2 py-0.5 ${match === m ? 'bg-blue-600 text-white' : 'bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400'}`}
+      >
+        {m}
+      </button>
+    ))}
+  </span>
+);
+
+const FilterBuilder: React.FC<FilterBuilderProps> = ({ filter, columns, dates, onChange, onApplyPreset }) => {
+  const [presets, setPresets] = useState<FilterPreset[]>(loadFilterPresets);
+  const [activePreset, setActivePreset] = useState('');
+
+  const newCondition = (): FilterCondition => ({ column: columns[0] ?? '', operator: 'equals', value: '' });
+
+  const updateGroup = (index: number, group: FilterGroup | null) => {
+    const groups = group
+      ? filter.groups.map((g, i) => i === index ? group : g)
+      : filter.groups.filter((_, i) => i !== index);
+    onChange({ ...filter, groups });
+  };
+
+  const updateCondition = (group: FilterGroup, groupIndex: number, index: number, patch: Partial<FilterCondition>) =>
+    updateGroup(groupIndex, { ...group, conditions: group.conditions.map((c, i) => i === index ? { ...c, ...patch } : c) });
+
+  const removeCondition = (group: FilterGroup, groupIndex: number, index: number) => {
+    const conditions = group.conditions.filter((_, i) => i !== index);
+    updateGroup(groupIndex, conditions.length ? { ...group, conditions } : null);
+  };
+
+  const addGroup = () => onChange({ ...filter, groups: [...filter.groups, { match: 'all', conditions: [newCondition()] }] });
+
+  const handleSavePreset = () => {
+    const name = window.prompt("Preset name (e.g. 'Speakers only')", activePreset)?.trim();
+    if (!name) return;
+    setPresets(saveFilterPreset({ name, rowFilter: filter, ...dates }));
+    setActivePreset(name);
+  };
+
+  const handleDeletePreset = () => {
+    if (!activePreset) return;
+    setPresets(deleteFilterPreset(activePreset));
+    setActivePreset('');
+  };
+
+  const handleSelectPreset = (name: string) => {
+    setActivePreset(name);
+    const preset = presets.find(p => p.name === name);
+    if (preset) onApplyPreset(preset);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center gap-2">
+        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Column Conditions</label>
+        <div className="flex items-center gap-1">
+          <select value={activePreset} onChange={(e) => handleSelectPreset(e.target.value)} className={`${inputClass} w-32`}>
+            <option value="">— Presets —</option>
+            {presets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+          </select>
+          <button onClick={handleSavePreset} title="Save filters as preset" className="p-1.5 rounded-lg text-slate-500 hover:text-blue-600 hover:bg-white dark:hover:bg-slate-700">
+            <Save className="w-4 h-4" />
+          </button>
+          <button onClick={handleDeletePreset} disabled={!activePreset} title="Delete preset" className="p-1.5 rounded-lg text-slate-500 hover:text-rose-600 hover:bg-white dark:hover:bg-slate-700 disabled:opacity-40">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {filter.groups.length > 1 && (
+        <div className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300">
+          Rows must match <MatchToggle match={filter.match} onChange={(match) => onChange({ ...filter, match })} /> of the groups
+        </div>
+      )}
+
+      {filter.groups.map((group, groupIndex) => (
+        <div key={groupIndex} className="p-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-white/60 dark:bg-slate-900/40 space-y-2">
+          <div className="flex justify-between items-center text-xs text-slate-600 dark:text-slate-300">
+            <span className="flex items-center gap-2">
+              Match <MatchToggle match={group.match} onChange={(match) => updateGroup(groupIndex, { ...group, match })} /> of
+            </span>
+            <button onClick={() => updateGroup(groupIndex, null)} title="Remove group" className="text-slate-400 hover:text-rose-600">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+
+          {group.conditions.map((condition, index) => {
+            const operator = FILTER_OPERATORS.find(o => o.value === condition.operator);
+            const issue = getConditionIssue(condition);
+            return (
+              <div key={index} className="space-y-1">
+                <div className="flex items-center gap-1">
+                  <select
+                    value={condition.column}
+                    onChange={(e) => updateCondition(group, groupIndex, index, { column: e.target.value })}
+                    className={`${inputClass} flex-1 min-w-0`}
+                  >
+                    {!columns.includes(condition.column) && <option value={condition.column}>{condition.column || '— Column —'}</option>}
+                    {columns.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                  <select
+                    value={condition.operator}
+                    onChange={(e) => updateCondition(group, groupIndex, index, { operator: e.target.value as FilterCondition['operator'] })}
+                    className={`${inputClass} flex-1 min-w-0`}
+                  >
+                    {FILTER_OPERATORS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                  </select>
+                  <button onClick={() => removeCondition(group, groupIndex, index)} title="Remove condition" className="p-1 text-slate-400 hover:text-rose-600">
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                {operator?.needsValue && (
+                  <input
+                    type="text"
+                    value={condition.value}
+                    placeholder={condition.operator === 'in-list' ? 'Values separated by commas' : condition.operator === 'regex' ? 'Pattern, e.g. ^VIP' : 'Value'}
+                    onChange={(e) => updateCondition(group, groupIndex, index, { value: e.target.value })}
+                    className={`${inputClass} w-full ${condition.operator === 'regex' ? 'font-mono' : ''}`}
+                  />
+                )}
+                {issue && <p className="text-[11px] text-rose-600 dark:text-rose-400">{issue}</p>}
+              </div>
+            );
+          })}
+
+          <button
+            onClick={() => updateGroup(groupIndex, { ...group, conditions: [...group.conditions, newCondition()] })}
+            className="text-[11px] font-bold text-blue-600 dark:text-blue-400 flex items-center gap-1 hover:underline"
+          >
+            <Plus className="w-3 h-3" /> Condition
+          </button>
+        </div>
+      ))}
+
+      <button onClick={addGroup} disabled={columns.length === 0} className="text-xs font-bold text-blue-600 dark:text-blue-400 flex items-center gap-1 hover:underline disabled:opacity-50">
+        <Plus className="w-3.5 h-3.5" /> {filter.groups.length ? 'Add group' : 'Add condition'}
+      </button>
+      {filter.groups.length > 0 && (
+        <p className="text-[11px] text-slate-400">Text is compared ignoring case and surrounding spaces.</p>
+      )}
+    </div>
+  );
+};
+
+export default FilterBuilder;
@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, ChevronDown, ChevronRight, FileImage, Folder, FolderTree } from 'lucide-react';
+import { FolderLayout } from '../types';
+import { buildFolderTree, FolderNode } from '../services/folderLayout';
+
+interface FolderLayoutPanelProps {
+  layout: FolderLayout;
+  columns: string[];
+  errors: string[];
+  /** Archive paths of the files that would be written */
+  paths: string[];
+  disabled?: boolean;
+  onChange: (layout: FolderLayout) => void;
+}
+
+const MODES: { value: FolderLayout['mode']; label: string }[] = [
+  { value: 'flat', label: 'Flat' },
+  { value: 'sheet', label: 'By sheet' },
+  { value: 'source', label: 'By file' },
+  { value: 'date', label: 'By date' },
+  { value: 'column', label: 'By column' },
+  { value: 'template', label: 'Custom' }
+];
+
+const FILES_PER_FOLDER = 5;
+
+const selectClass = "bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-blue-500 outline-none dark:text-white disabled:opacity-50";
+
+const TreeNode: React.FC<{ node: FolderNode; depth: number }> = ({ node, depth }) => {
+  const [open, setOpen] = useState(depth === 0);
+  const hidden = node.files.length - FILES_PER_FOLDER;
+
+  return (
+    <li>
+      <button onClick={() => setOpen(!open)} className="flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400">
+        {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <Folder className="w-3.5 h-3.5 text-amber-500" />
+        <span className="font-semibold">{node.name}</span>
+        <span className="text-slate-400">({node.fileCount})</span>
+      </button>
+      {open && <NodeContents node={node} depth={depth + 1} hidden={hidden} />}
+    </li>
+  );
+};
+
+const NodeContents: React.FC<{ node: FolderNode; depth: number; hidden: number }> = ({ node, depth, hidden }) => (
+  <ul className={depth > 0 ? 'pl-4 space-y-0.5' : 'space-y-0.5'}>
+    {node.folders.map(folder => <TreeNode key={folder.name} node={folder} depth={depth} />)}
+    {node.files.slice(0, FILES_PER_FOLDER).map(file => (
+      <li key={file} className="flex items-center gap-1 pl-4 text-slate-500 dark:text-slate-400">
+        <FileImage className="w-3 h-3" /> {file}
+      </li>
+    ))}
+    {hidden > 0 && <li className="pl-4 text-slate-400 italic">+{hidden} more</li>}
+  </ul>
+);
+
+const FolderLayoutPanel: React.FC<FolderLayoutPanelProps> = ({ layout, columns, errors, paths, disabled, onChange }) => {
+  const tree = useMemo(() => buildFolderTree(paths), [paths]);
+
+  return (
+    <div className="mt-6 w-full max-w-2xl bg-slate-50/50 dark:bg-slate-800/50 p-5 rounded-2xl border border-slate-200 dark:border-slate-700 text-left space-y-3">
+      <div className="flex items-center gap-2">
+        <FolderTree className="w-4 h-4 text-blue-500" />
+        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Folder Layout</label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex gap-1.5">
+          {MODES.map(m => (
+            <button
+              key={m.value}
+              disabled={disabled}
+              onClick={() => onChange({ ...layout, mode: m.value })}
+              className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-all border ${
+                layout.mode === m.value
+                  ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 border-blue-200 dark:border-blue-800'
+                  : 'bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:border-slate-300'
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+
+        {layout.mode === 'date' && (
+          <select value={layout.dateGrouping} disabled={disabled} onChange={(e) => onChange({ ...layout, dateGrouping: e.target.value as FolderLayout['dateGrouping'] })} className={selectClass}>
+            <option value="day">Per day</option>
+            <option value="week">Per week</option>
+            <option value="month">Per month</option>
+          </select>
+        )}
+        {layout.mode === 'column' && (
+          <select value={layout.column || ''} disabled={disabled} onChange={(e) => onChange({ ...layout, column: e.target.value || undefined })} className={selectClass}>
+            <option value="">— Select column —</option>
+            {columns.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        )}
+        {layout.mode === 'template' && (
+          <input
+            type="text"
+            value={layout.pattern}
+            disabled={disabled}
+            spellCheck={false}
+            placeholder="{sheet}/{col:Registration Type}"
+            onChange={(e) => onChange({ ...layout, pattern: e.target.value })}
+            className={`${selectClass} flex-1 min-w-[200px] font-mono`}
+          />
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="space-y-1">
+          {errors.map(err => (
+            <li key={err} className="flex items-start gap-1.5 text-[11px] text-rose-600 dark:text-rose-400">
+              <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" /> {err}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="max-h-[220px] overflow-y-auto custom-scrollbar bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-slate-700 p-3 text-[11px] font-mono text-slate-700 dark:text-slate-300">
+        {paths.length === 0
+          ? <p className="text-slate-400">No downloaded images yet.</p>
+          : <NodeContents node={tree} depth={0} hidden={tree.files.length - FILES_PER_FOLDER} />}
+      </div>
+      <p className="text-[11px] text-slate-400">
+        Custom layouts use the same tokens as filenames; '/' starts a subfolder. Changing the layout re-checks duplicate filenames.
+      </p>
+    </div>
+  );
+};
+
+export default FolderLayoutPanel;
@@ -0,0 +1,356 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, ExternalLink, Eye, EyeOff, Images, Replace, ShieldCheck, UserX, X } from 'lucide-react';
+import { ImageTask } from '../types';
+import { QUALITY_ISSUE_LABELS } from '../services/imageQuality';
+import { formatBytes } from '../utils';
+
+interface ImageGalleryProps {
+  /** Tasks with a downloaded image, including ones skipped by the quality checks */
+  tasks: ImageTask[];
+  disabled?: boolean;
+  onToggleExcluded: (id: string) => void;
+  onReplace: (id: string, file: File) => void;
+  onDismissIssue: (id: string) => void;
+  onMarkPlaceholder: (id: string) => void;
+}
+
+type GalleryFilter = 'all' | 'flagged' | 'excluded' | 'replaced';
+
+const GALLERY_FILTERS: Record<GalleryFilter, (task: ImageTask) => boolean> = {
+  all: () => true,
+  flagged: t => !!t.quality,
+  excluded: t => !!t.excluded,
+  replaced: t => !!t.replacement
+};
+
+const PAGE_SIZE = 60;
+
+const chipClass = (active: boolean) => `px-2 py-1 rounded-lg text-[11px] font-semibold transition-all border ${
+  active
+    ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 border-blue-200 dark:border-blue-800'
+    : 'bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:border-slate-300'
+}`;
+
+// Images that won't be in the ZIP
+const isLeftOut = (task: ImageTask) => task.excluded || task.status !== 'completed';
+
+const TileBadge: React.FC<{ task: ImageTask }> = ({ task }) => {
+  const [label, className] = task.excluded ? ['Excluded', 'bg-slate-700']
+    : task.quality ? [QUALITY_ISSUE_LABELS[task.quality.issue], 'bg-amber-500']
+    : task.replacement ? ['Replaced', 'bg-blue-600']
+    : [];
+  if (!label) return null;
+  return (
+    <span title={task.quality?.reason} className={`absolute top-1 left-1 px-1 rounded text-[9px] font-bold uppercase text-white ${className}`}>
+      {label}
+    </span>
+  );
+};
+
+const droppedImage = (e: React.DragEvent) => Array.from<File>(e.dataTransfer.files).find(f => f.type.startsWith('image/')) ?? e.dataTransfer.files[0];
+
+/**
+ * Object URL for a blob, created only while `enabled` and revoked when no
+ * longer needed.
+ */
+function useObjectUrl(blob: Blob | undefined, enabled = true): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!blob || !enabled) return;
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => {
+      URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [blob, enabled]);
+  return url;
+}
+
+// Images are only decoded once their tile scrolls into view
+const Thumbnail: React.FC<{ blob?: Blob; alt: string }> = ({ blob, alt }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [visible, setVisible] = useState(false);
+  const url = useObjectUrl(blob, visible);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <div ref={ref} className="w-full h-full">
+      {url && <img src={url} alt={alt} decoding="async" className="w-full h-full object-cover" />}
+    </div>
+  );
+};
+
+interface LightboxProps {
+  task: ImageTask;
+  disabled?: boolean;
+  hasPrevious: boolean;
+  hasNext: boolean;
+  onNavigate: (step: number) => void;
+  onClose: () => void;
+  onToggleExcluded: (id: string) => void;
+  onReplace: (id: string, file: File) => void;
+  onDismissIssue: (id: string) => void;
+  onMarkPlaceholder: (id: string) => void;
+}
+
+const Lightbox: React.FC<LightboxProps> = ({
+  task, disabled, hasPrevious, hasNext, onNavigate, onClose, onToggleExcluded, onReplace, onDismissIssue, onMarkPlaceholder
+}) => {
+  const url = useObjectUrl(task.blob);
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft' && hasPrevious) onNavigate(-1);
+      if (e.key === 'ArrowRight' && hasNext) onNavigate(1);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [hasPrevious, hasNext, onNavigate, onClose]);
+
+  // Header dimensions are missing for some formats, so fall back to the decoded size
+  const width = task.width ?? natural?.width;
+  const height = task.height ?? natural?.height;
+  const bytes = task.bytes ?? task.blob?.size;
+
+  const details: [string, React.ReactNode][] = [
+    ['Filename', <span className="font-mono break-all">{task.filename}</span>],
+    ['Dimensions', width && height ? `${width} × ${height} px` : 'Unknown'],
+    ['Size', bytes !== undefined ? formatBytes(bytes) : 'Unknown'],
+    ['Type', task.contentType || task.format || 'Unknown'],
+    ['Source', (
+      <a href={task.url} target="_blank" rel="noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline break-all inline-flex items-start gap-1">
+        {task.url} <ExternalLink className="w-3 h-3 shrink-0 mt-0.5" />
+      </a>
+    )]
+  ];
+  if (task.replacement) details.push(['Replaced With', task.replacement]);
+  if (task.quality) details.push(['Quality Issue', <span className="text-amber-600 dark:text-amber-400">{task.quality.reason}</span>]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        onDragOver={(e) => { e.preventDefault(); if (!disabled) setDragging(true); }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          const file = droppedImage(e);
+          if (file && !disabled) onReplace(task.id, file);
+        }}
+        className={`relative bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-4xl max-h-full overflow-hidden flex flex-col md:flex-row text-left ${dragging ? 'ring-4 ring-blue-500' : ''}`}
+      >
+        <div className="relative flex-1 min-h-[320px] bg-slate-100 dark:bg-slate-900 flex items-center justify-center">
+          {url && (
+            <img
+              src={url}
+              alt={task.fullName}
+              onLoad={(e) => setNatural({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+              className={`max-w-full max-h-[75vh] object-contain ${isLeftOut(task) ? 'opacity-40 grayscale' : ''}`}
+            />
+          )}
+          {hasPrevious && (
+            <button onClick={() => onNavigate(-1)} title="Previous" className="absolute left-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-white/80 dark:bg-slate-800/80 hover:bg-white dark:hover:bg-slate-700">
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+          )}
+          {hasNext && (
+            <button onClick={() => onNavigate(1)} title="Next" className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-white/80 dark:bg-slate-800/80 hover:bg-white dark:hover:bg-slate-700">
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          )}
+          {dragging && (
+            <div className="absolute inset-0 pointer-events-none flex items-center justify-center bg-blue-500/20 text-blue-700 dark:text-blue-200 font-bold">
+              Drop to replace this image
+            </div>
+          )}
+        </div>
+
+        <div className="md:w-72 p-5 space-y-4 overflow-y-auto">
+          <div className="flex justify-between items-start gap-2">
+            <div>
+              <h3 className="font-bold text-slate-800 dark:text-white">{task.fullName}</h3>
+              <p className="text-xs text-slate-400">{task.sheet}</p>
+            </div>
+            <button onClick={onClose} title="Close" className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <dl className="space-y-2 text-xs">
+            {details.map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{label}</dt>
+                <dd className="text-slate-700 dark:text-slate-200">{value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          <div className="space-y-2">
+            {task.quality && (
+              <button
+                onClick={() => onDismissIssue(task.id)}
+                disabled={disabled}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-xs font-bold border border-amber-200 dark:border-amber-800 text-amber-700 dark:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/30 disabled:opacity-50"
+              >
+                <ShieldCheck className="w-4 h-4" /> Keep Anyway
+              </button>
+            )}
+            {task.phash && task.quality?.issue !== 'placeholder' && (
+              <button
+                onClick={() => onMarkPlaceholder(task.id)}
+                disabled={disabled}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-xs font-bold border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+              >
+                <UserX className="w-4 h-4" /> Mark as Placeholder
+              </button>
+            )}
+            <button
+              onClick={() => onToggleExcluded(task.id)}
+              disabled={disabled}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-xs font-bold border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50"
+            >
+              {task.excluded ? <><Eye className="w-4 h-4" /> Include in ZIP</> : <><EyeOff className="w-4 h-4" /> Exclude from ZIP</>}
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-xs font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Replace className="w-4 h-4" /> Replace Image
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onReplace(task.id, file);
+                e.target.value = '';
+              }}
+            />
+            <p className="text-[10px] text-slate-400 text-center">or drop an image file here</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ImageGallery: React.FC<ImageGalleryProps> = ({ tasks, disabled, onToggleExcluded, onReplace, onDismissIssue, onMarkPlaceholder }) => {
+  const [filter, setFilter] = useState<GalleryFilter>('all');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const counts = useMemo(() => Object.fromEntries(
+    (Object.keys(GALLERY_FILTERS) as GalleryFilter[]).map(f => [f, tasks.filter(GALLERY_FILTERS[f]).length])
+  ) as Record<GalleryFilter, number>, [tasks]);
+
+  const shown = useMemo(() => filter === 'all' ? tasks : tasks.filter(GALLERY_FILTERS[filter]), [tasks, filter]);
+
+  // Looked up by id so the lightbox follows the task through exclude and replace
+  const openIndex = openId ? shown.findIndex(t => t.id === openId) : -1;
+  const navigate = (step: number) => {
+    const next = shown[openIndex + step];
+    if (next) setOpenId(next.id);
+  };
+
+  if (tasks.length === 0) return null;
+
+  return (
+    <div className="mt-6 w-full max-w-2xl bg-slate-50/50 dark:bg-slate-800/50 p-5 rounded-2xl border border-slate-200 dark:border-slate-700 text-left space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Images className="w-4 h-4 text-blue-500" />
+          <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Gallery</label>
+        </div>
+        <div className="flex gap-1.5">
+          {(Object.keys(GALLERY_FILTERS) as GalleryFilter[]).map(f => (
+            <button key={f} onClick={() => { setFilter(f); setLimit(PAGE_SIZE); }} className={`${chipClass(filter === f)} capitalize`}>
+              {f} <span className="opacity-60">{counts[f]}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+        {shown.slice(0, limit).map(task => (
+          <div
+            key={task.id}
+            onDragOver={(e) => { e.preventDefault(); if (!disabled) setDropTarget(task.id); }}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setDropTarget(null);
+              const file = droppedImage(e);
+              if (file && !disabled) onReplace(task.id, file);
+            }}
+            className={`group relative aspect-square rounded-lg overflow-hidden bg-slate-100 dark:bg-slate-900 border-2 ${dropTarget === task.id ? 'border-blue-500' : 'border-transparent'}`}
+          >
+            <button onClick={() => setOpenId(task.id)} title={task.fullName} className={`w-full h-full ${isLeftOut(task) ? 'opacity-30 grayscale' : ''}`}>
+              <Thumbnail blob={task.blob} alt={task.fullName} />
+            </button>
+            <button
+              onClick={() => onToggleExcluded(task.id)}
+              disabled={disabled}
+              title={task.excluded ? 'Include in ZIP' : 'Exclude from ZIP'}
+              className="absolute top-1 right-1 p-1 rounded-md bg-white/90 dark:bg-slate-800/90 text-slate-600 dark:text-slate-300 opacity-0 group-hover:opacity-100 transition-opacity disabled:hidden"
+            >
+              {task.excluded ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+            </button>
+            <div className="absolute bottom-0 inset-x-0 px-1.5 py-0.5 bg-gradient-to-t from-black/60 to-transparent text-[10px] text-white truncate pointer-events-none">
+              {task.fullName}
+            </div>
+            <TileBadge task={task} />
+          </div>
+        ))}
+      </div>
+
+      {shown.length > limit && (
+        <button onClick={() => setLimit(limit + PAGE_SIZE)} className="w-full text-xs font-semibold text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/30 px-2 py-1.5 rounded">
+          Show {Math.min(PAGE_SIZE, shown.length - limit)} more of {shown.length - limit}
+        </button>
+      )}
+      <p className="text-[11px] text-slate-400">
+        Click an image for details. Drop an image file onto a photo to replace it in the ZIP.
+      </p>
+
+      {openIndex !== -1 && (
+        <Lightbox
+          key={shown[openIndex].id}
+          task={shown[openIndex]}
+          disabled={disabled}
+          hasPrevious={openIndex > 0}
+          hasNext={openIndex < shown.length - 1}
+          onNavigate={navigate}
+          onClose={() => setOpenId(null)}
+          onToggleExcluded={onToggleExcluded}
+          onReplace={onReplace}
+          onDismissIssue={onDismissIssue}
+          onMarkPlaceholder={onMarkPlaceholder}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ImageGallery;
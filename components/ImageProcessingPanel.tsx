@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Save, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { ImageProcessingSettings, OutputFormatSettings, ProcessingPreset, ProcessingSummary } from '../types';
+import { deletePreset, loadPresets, savePreset } from '../services/imageProcessing';
+import { formatBytes } from '../utils';
+
+interface ImageProcessingPanelProps {
+  processing: ImageProcessingSettings;
+  output: OutputFormatSettings;
+  summary: ProcessingSummary | null;
+  disabled?: boolean;
+  onChange: (settings: ImageProcessingSettings) => void;
+  onApplyPreset: (preset: ProcessingPreset) => void;
+}
+
+const inputClass = "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-blue-500 outline-none dark:text-white disabled:opacity-50";
+const labelClass = "text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider";
+
+const ImageProcessingPanel: React.FC<ImageProcessingPanelProps> = ({ processing, output, summary, disabled, onChange, onApplyPreset }) => {
+  const [presets, setPresets] = useState<ProcessingPreset[]>(loadPresets);
+  const [activePreset, setActivePreset] = useState('');
+  const locked = disabled || !processing.enabled;
+
+  const update = (patch: Partial<ImageProcessingSettings>) => onChange({ ...processing, ...patch });
+  const numberInput = (key: 'maxWidth' | 'maxHeight' | 'targetKB', label: string) => (
+    <div className="space-y-1">
+      <label className={labelClass}>{label}</label>
+      <input
+        type="number"
+        min={0}
+        value={processing[key] || ''}
+        placeholder="No limit"
+        disabled={locked}
+        onChange={(e) => update({ [key]: Math.max(0, Number(e.target.value) || 0) })}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  const handleSavePreset = () => {
+    const name = window.prompt("Preset name (e.g. 'Badge printer')", activePreset)?.trim();
+    if (!name) return;
+    setPresets(savePreset({ name, processing, output }));
+    setActivePreset(name);
+  };
+
+  const handleDeletePreset = () => {
+    if (!activePreset) return;
+    setPresets(deletePreset(activePreset));
+    setActivePreset('');
+  };
+
+  const handleSelectPreset = (name: string) => {
+    setActivePreset(name);
+    const preset = presets.find(p => p.name === name);
+    if (preset) onApplyPreset(preset);
+  };
+
+  const saved = summary ? summary.originalBytes - summary.outputBytes : 0;
+
+  return (
+    <div className="mt-4 w-full max-w-2xl bg-slate-50/50 dark:bg-slate-800/50 p-5 rounded-2xl border border-slate-200 dark:border-slate-700 text-left space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <SlidersHorizontal className="w-4 h-4 text-blue-500" />
+          <span className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Resize & Compress</span>
+          <input type="checkbox" checked={processing.enabled} disabled={disabled} onChange={(e) => update({ enabled: e.target.checked })} />
+        </label>
+        <div className="flex items-center gap-1.5">
+          <select value={activePreset} onChange={(e) => handleSelectPreset(e.target.value)} disabled={disabled} className={`${inputClass} w-40`}>
+            <option value="">— Presets —</option>
+            {presets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+          </select>
+          <button onClick={handleSavePreset} disabled={disabled} title="Save current settings as preset" className="p-1.5 rounded-lg text-slate-500 hover:text-blue-600 hover:bg-white dark:hover:bg-slate-700">
+            <Save className="w-4 h-4" />
+          </button>
+          <button onClick={handleDeletePreset} disabled={disabled || !activePreset} title="Delete preset" className="p-1.5 rounded-lg text-slate-500 hover:text-rose-600 hover:bg-white dark:hover:bg-slate-700 disabled:opacity-40">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {numberInput('maxWidth', 'Max Width (px)')}
+        {numberInput('maxHeight', 'Max Height (px)')}
+        <div className="space-y-1">
+          <label className={labelClass}>Crop</label>
+          <select value={processing.crop} disabled={locked} onChange={(e) => update({ crop: e.target.value as ImageProcessingSettings['crop'] })} className={inputClass}>
+            <option value="none">None</option>
+            <option value="center">Center (to max size)</option>
+            <option value="square">Square</option>
+            <option value="face">Square on face</option>
+          </select>
+        </div>
+        {numberInput('targetKB', 'Target Size (KB)')}
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-xs text-slate-600 dark:text-slate-300">
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={processing.fixOrientation} disabled={locked} onChange={(e) => update({ fixOrientation: e.target.checked })} />
+          Fix EXIF orientation
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={processing.stripMetadata} disabled={locked} onChange={(e) => update({ stripMetadata: e.target.checked })} />
+          Strip metadata
+        </label>
+      </div>
+      <p className="text-[11px] text-slate-400">Processed images are re-encoded, which always removes EXIF, GPS and other metadata. With nothing else to change, images are copied as-is unless metadata is stripped.</p>
+
+      {summary && (
+        <div className="grid grid-cols-3 gap-3 pt-3 border-t border-slate-200 dark:border-slate-700 text-center">
+          <div>
+            <div className="text-sm font-bold text-slate-800 dark:text-white">{formatBytes(summary.originalBytes)} → {formatBytes(summary.outputBytes)}</div>
+            <div className="text-[10px] text-slate-500 uppercase">Before → After</div>
+          </div>
+          <div>
+            <div className={`text-sm font-bold ${saved > 0 ? 'text-emerald-500' : 'text-slate-800 dark:text-white'}`}>
+              {summary.originalBytes > 0 ? `${Math.round((saved / summary.originalBytes) * 100)}%` : '0%'}
+            </div>
+            <div className="text-[10px] text-slate-500 uppercase">Saved</div>
+          </div>
+          <div>
+            <div className="text-sm font-bold text-slate-800 dark:text-white">
+              {summary.processed} / {summary.files}
+              {summary.failed > 0 && <span className="text-rose-500"> · {summary.failed} kept as-is</span>}
+            </div>
+            <div className="text-[10px] text-slate-500 uppercase">Processed</div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageProcessingPanel;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { GitCompare, Trash2 } from 'lucide-react';
+import { RunDiff, RunManifestSummary } from '../types';
+
+interface IncrementalRunPanelProps {
+  manifests: RunManifestSummary[];
+  baselineId: string;
+  diff: RunDiff | null;
+  disabled?: boolean;
+  onSelectBaseline: (id: string) => void;
+  onDeleteManifest: (id: string) => void;
+}
+
+const IncrementalRunPanel: React.FC<IncrementalRunPanelProps> = ({ manifests, baselineId, diff, disabled, onSelectBaseline, onDeleteManifest }) => {
+  const [showRemoved, setShowRemoved] = useState(false);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <GitCompare className="w-4 h-4 text-blue-500" />
+        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Only New Registrants</label>
+      </div>
+
+      {manifests.length === 0 ? (
+        <p className="text-[11px] text-slate-400">No previous runs yet. A run is recorded each time a batch finishes downloading.</p>
+      ) : (
+        <div className="flex gap-1.5">
+          <select
+            value={baselineId}
+            disabled={disabled}
+            onChange={(e) => onSelectBaseline(e.target.value)}
+            className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-blue-500 outline-none dark:text-white disabled:opacity-50"
+          >
+            <option value="">Download everyone</option>
+            {manifests.map(m => (
+              <option key={m.id} value={m.id}>
+                Since {m.name} · {new Date(m.createdAt).toLocaleDateString()} ({m.count})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => baselineId && onDeleteManifest(baselineId)}
+            disabled={disabled || !baselineId}
+            title="Delete this run record"
+            className="p-1.5 rounded-lg text-slate-400 hover:text-rose-600 hover:bg-white dark:hover:bg-slate-700 disabled:opacity-40"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {diff && (
+        <>
+          <div className="grid grid-cols-4 gap-1.5 text-center">
+            {[
+              { label: 'New', value: diff.added, color: 'text-emerald-500' },
+              { label: 'Changed', value: diff.changed, color: 'text-blue-500' },
+              { label: 'Same', value: diff.unchanged, color: 'text-amber-500' },
+              { label: 'Removed', value: diff.removed.length, color: 'text-rose-500' }
+            ].map(item => (
+              <div key={item.label} className="p-2 bg-white dark:bg-slate-900 rounded-lg">
+                <div className={`text-sm font-bold ${item.color}`}>{item.value}</div>
+                <div className="text-[9px] text-slate-500 uppercase">{item.label}</div>
+              </div>
+            ))}
+          </div>
+          {diff.ambiguous > 0 && (
+            <p className="text-[11px] text-amber-600 dark:text-amber-400">
+              {diff.ambiguous} rows share a name and photo URL with another row in their sheet and are always downloaded.
+            </p>
+          )}
+          {diff.removed.length > 0 && (
+            <div className="text-[11px]">
+              <button onClick={() => setShowRemoved(!showRemoved)} className="text-slate-500 dark:text-slate-400 hover:underline">
+                {showRemoved ? 'Hide' : 'Show'} attendees no longer in the export
+              </button>
+              {showRemoved && (
+                <ul className="mt-1 max-h-[100px] overflow-y-auto custom-scrollbar text-slate-500 dark:text-slate-400">
+                  {diff.removed.map(e => <li key={e.key}>{e.fullName} <span className="opacity-60">({e.sheet})</span></li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default IncrementalRunPanel;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Files } from 'lucide-react';
+import { DedupeSettings } from '../types';
+
+interface MergeSettingsPanelProps {
+  files: string[];
+  settings: DedupeSettings;
+  onChange: (settings: DedupeSettings) => void;
+}
+
+const selectClass = "bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none dark:text-white disabled:opacity-50";
+
+const MergeSettingsPanel: React.FC<MergeSettingsPanelProps> = ({ files, settings, onChange }) => (
+  <div className="bg-slate-50/50 dark:bg-slate-800/50 p-5 rounded-2xl border border-slate-200 dark:border-slate-700 space-y-3">
+    <div className="flex items-center gap-2">
+      <Files className="w-4 h-4 text-blue-500" />
+      <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Merging {files.length} Files</label>
+    </div>
+    <p className="text-xs text-slate-500 dark:text-slate-400 truncate" title={files.join('\n')}>{files.join(' · ')}</p>
+    <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600 dark:text-slate-300">
+      <span>Attendees in more than one file:</span>
+      <select value={settings.mode} onChange={(e) => onChange({ ...settings, mode: e.target.value as DedupeSettings['mode'] })} className={selectClass}>
+        <option value="name">Same name counts as one</option>
+        <option value="nameAndUrl">Same name and photo URL counts as one</option>
+        <option value="off">Keep every row</option>
+      </select>
+      <select value={settings.keep} disabled={settings.mode === 'off'} onChange={(e) => onChange({ ...settings, keep: e.target.value as DedupeSettings['keep'] })} className={selectClass}>
+        <option value="last">Use the row from the last file</option>
+        <option value="first">Use the row from the first file</option>
+      </select>
+    </div>
+  </div>
+);
+
+export default MergeSettingsPanel;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { FileImage } from 'lucide-react';
+import { OutputFormatSettings } from '../types';
+
+interface OutputFormatPanelProps {
+  settings: OutputFormatSettings;
+  disabled?: boolean;
+  onChange: (settings: OutputFormatSettings) => void;
+}
+
+const TARGETS: { value: OutputFormatSettings['target']; label: string }[] = [
+  { value: 'original', label: 'Keep original' },
+  { value: 'jpeg', label: 'JPEG' },
+  { value: 'png', label: 'PNG' },
+  { value: 'webp', label: 'WebP' }
+];
+
+const OutputFormatPanel: React.FC<OutputFormatPanelProps> = ({ settings, disabled, onChange }) => {
+  const hasQuality = settings.target === 'jpeg' || settings.target === 'webp';
+
+  return (
+    <div className="mt-6 w-full max-w-2xl bg-slate-50/50 dark:bg-slate-800/50 p-5 rounded-2xl border border-slate-200 dark:border-slate-700 text-left space-y-3">
+      <div className="flex items-center gap-2">
+        <FileImage className="w-4 h-4 text-blue-500" />
+        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Image Format in ZIP</label>
+      </div>
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex gap-1.5">
+          {TARGETS.map(t => (
+            <button
+              key={t.value}
+              disabled={disabled}
+              onClick={() => onChange({ ...settings, target: t.value })}
+              className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-all border ${
+                settings.target === t.value
+                  ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 border-blue-200 dark:border-blue-800'
+                  : 'bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:border-slate-300'
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+        {hasQuality && (
+          <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 flex-1 min-w-[180px]">
+            Quality
+            <input
+              type="range"
+              min={0.3}
+              max={1}
+              step={0.05}
+              value={settings.quality}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...settings, quality: Number(e.target.value) })}
+              className="flex-1"
+            />
+            <span className="font-mono w-10 text-right">{Math.round(settings.quality * 100)}%</span>
+          </label>
+        )}
+      </div>
+      <p className="text-[11px] text-slate-400">
+        {settings.target === 'original'
+          ? 'Files keep the format the server sent, with a matching extension.'
+          : 'Images are converted in your browser while the ZIP is built. Files the browser cannot decode (e.g. HEIC) are kept as-is.'}
+      </p>
+    </div>
+  );
+};
+
+export default OutputFormatPanel;
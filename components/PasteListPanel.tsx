@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { ArrowRight, ClipboardPaste } from 'lucide-react';
+
+interface PasteListPanelProps {
+  onSubmit: (text: string) => void;
+}
+
+const PasteListPanel: React.FC<PasteListPanelProps> = ({ onSubmit }) => {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} className="mt-6 text-sm font-semibold text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 flex items-center gap-1.5">
+        <ClipboardPaste className="w-4 h-4" /> Paste a list instead
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-8 w-full max-w-xl text-left space-y-2">
+      <div className="flex items-center gap-2">
+        <ClipboardPaste className="w-4 h-4 text-blue-500" />
+        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Paste Names and URLs</label>
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={6}
+        spellCheck={false}
+        placeholder={"Jane Doe, https://example.com/jane.jpg\nJohn Smith <https://example.com/john.png>"}
+        className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-blue-500 outline-none dark:text-white"
+      />
+      <div className="flex justify-between items-center">
+        <p className="text-[11px] text-slate-400">One attendee per line, or a table copied from a spreadsheet with its header row.</p>
+        <button
+          onClick={() => onSubmit(text)}
+          disabled={!text.trim()}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold rounded-lg flex items-center gap-1.5 disabled:opacity-50"
+        >
+          Continue <ArrowRight className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PasteListPanel;
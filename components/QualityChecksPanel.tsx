@@ -0,0 +1,103 @@
+import React from 'react';
+import { Loader2, ScanSearch } from 'lucide-react';
+import { QualityIssueKind, QualitySettings } from '../types';
+import { QUALITY_ISSUE_LABELS } from '../services/imageQuality';
+
+interface QualityChecksPanelProps {
+  settings: QualitySettings;
+  /** Images flagged by the last check, per issue */
+  counts: Partial<Record<QualityIssueKind, number>>;
+  progress: { done: number; total: number } | null;
+  disabled?: boolean;
+  onChange: (settings: QualitySettings) => void;
+  onRun: () => void;
+}
+
+const inputClass = "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-blue-500 outline-none dark:text-white disabled:opacity-50";
+const labelClass = "text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider";
+
+type NumberKey = 'minWidth' | 'minHeight' | 'minAspect' | 'maxAspect' | 'placeholderGroupSize' | 'hashTolerance';
+
+const QualityChecksPanel: React.FC<QualityChecksPanelProps> = ({ settings, counts, progress, disabled, onChange, onRun }) => {
+  const locked = disabled || !!progress;
+  const update = (patch: Partial<QualitySettings>) => onChange({ ...settings, ...patch });
+  const numberInput = (key: NumberKey, label: string, step = 1, max?: number) => (
+    <div className="space-y-1">
+      <label className={labelClass}>{label}</label>
+      <input
+        type="number"
+        min={0}
+        max={max}
+        step={step}
+        value={settings[key]}
+        disabled={locked}
+        onChange={(e) => update({ [key]: Math.min(max ?? Infinity, Math.max(0, Number(e.target.value) || 0)) })}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  const flagged = (Object.keys(counts) as QualityIssueKind[]).filter(kind => counts[kind]);
+
+  return (
+    <div className="mt-6 w-full max-w-2xl bg-slate-50/50 dark:bg-slate-800/50 p-5 rounded-2xl border border-slate-200 dark:border-slate-700 text-left space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <ScanSearch className="w-4 h-4 text-blue-500" />
+          <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Quality Checks</label>
+        </div>
+        <button
+          onClick={onRun}
+          disabled={locked}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {progress ? <><Loader2 className="w-3.5 h-3.5 animate-spin" /> Checking {progress.done}/{progress.total}</> : 'Check Images'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+        {numberInput('minWidth', 'Min Width')}
+        {numberInput('minHeight', 'Min Height')}
+        {numberInput('minAspect', 'Min W/H', 0.1)}
+        {numberInput('maxAspect', 'Max W/H', 0.1)}
+        {numberInput('placeholderGroupSize', 'Placeholder At')}
+        {numberInput('hashTolerance', 'Tolerance', 1, 64)}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1.5 text-xs text-slate-600 dark:text-slate-300">
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={settings.detectDuplicates} disabled={locked} onChange={(e) => update({ detectDuplicates: e.target.checked })} />
+          Flag duplicate photos
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={settings.skipFlagged} disabled={locked} onChange={(e) => update({ skipFlagged: e.target.checked })} />
+          Skip flagged images
+        </label>
+        {settings.placeholderHashes.length > 0 && (
+          <span className="flex items-center gap-1.5">
+            {settings.placeholderHashes.length} known placeholder{settings.placeholderHashes.length === 1 ? '' : 's'}
+            <button onClick={() => update({ placeholderHashes: [] })} disabled={locked} className="font-semibold text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50">
+              Forget
+            </button>
+          </span>
+        )}
+      </div>
+
+      {flagged.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {flagged.map(kind => (
+            <span key={kind} className="px-2 py-0.5 rounded-md text-[11px] font-semibold bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-400">
+              {QUALITY_ISSUE_LABELS[kind]}: {counts[kind]}
+            </span>
+          ))}
+        </div>
+      )}
+      <p className="text-[11px] text-slate-400">
+        An image returned for this many attendees or more counts as a placeholder; 0 turns a check off. Tolerance is how many of 64 hash bits may differ.
+        Mark a placeholder from the gallery to catch it in every later batch.
+      </p>
+    </div>
+  );
+};
+
+export default QualityChecksPanel;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { FileCheck } from 'lucide-react';
+import { ResponsePolicy } from '../types';
+
+interface ResponsePolicyPanelProps {
+  policy: ResponsePolicy;
+  disabled?: boolean;
+  onChange: (policy: ResponsePolicy) => void;
+}
+
+const inputClass = "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-blue-500 outline-none dark:text-white disabled:opacity-50";
+const labelClass = "text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider";
+
+const MB = 1024 * 1024;
+
+const ResponsePolicyPanel: React.FC<ResponsePolicyPanelProps> = ({ policy, disabled, onChange }) => {
+  const update = (patch: Partial<ResponsePolicy>) => onChange({ ...policy, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <FileCheck className="w-4 h-4 text-blue-500" />
+        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Response Checks</label>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <label className={labelClass}>Timeout (s)</label>
+          <input
+            type="number"
+            min={0}
+            value={policy.timeoutMs / 1000}
+            disabled={disabled}
+            onChange={(e) => update({ timeoutMs: Math.max(0, Number(e.target.value) || 0) * 1000 })}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Max Size (MB)</label>
+          <input
+            type="number"
+            min={0}
+            value={policy.maxBytes / MB}
+            disabled={disabled}
+            onChange={(e) => update({ maxBytes: Math.round(Math.max(0, Number(e.target.value) || 0) * MB) })}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Min Size (KB)</label>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={policy.minBytes / 1024}
+            disabled={disabled}
+            onChange={(e) => update({ minBytes: Math.round(Math.max(0, Number(e.target.value) || 0) * 1024) })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1.5 text-xs text-slate-600 dark:text-slate-300">
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={policy.strictContentType} disabled={disabled} onChange={(e) => update({ strictContentType: e.target.checked })} />
+          Image content type only
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={policy.requireImageSignature} disabled={disabled} onChange={(e) => update({ requireImageSignature: e.target.checked })} />
+          Verify file signature
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={policy.verifyDecode} disabled={disabled} onChange={(e) => update({ verifyDecode: e.target.checked })} />
+          Test decode
+        </label>
+      </div>
+      <p className="text-[10px] text-slate-400">0 turns a limit off. Timeouts are retried; files failing a check are not.</p>
+    </div>
+  );
+};
+
+export default ResponsePolicyPanel;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { History, Play, Trash2 } from 'lucide-react';
+import { SessionSummary } from '../types';
+
+interface SavedSessionsPanelProps {
+  sessions: SessionSummary[];
+  onResume: (id: string) => void;
+  onDiscard: (id: string) => void;
+}
+
+const SavedSessionsPanel: React.FC<SavedSessionsPanelProps> = ({ sessions, onResume, onDiscard }) => {
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="mt-10 w-full max-w-xl text-left">
+      <div className="flex items-center gap-2 mb-3">
+        <History className="w-4 h-4 text-blue-500" />
+        <h3 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Resume Previous Session</h3>
+      </div>
+      <ul className="space-y-2 max-h-[180px] overflow-y-auto custom-scrollbar">
+        {sessions.map(session => (
+          <li key={session.id} className="flex items-center justify-between gap-3 p-3 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700">
+            <div className="min-w-0">
+              <p className="text-sm font-bold text-slate-800 dark:text-slate-200 truncate">{session.name}</p>
+              <p className="text-[11px] text-slate-400">
+                {new Date(session.updatedAt).toLocaleString()} · {session.completed}/{session.total} downloaded
+                {session.failed > 0 && <span className="text-rose-500"> · {session.failed} failed</span>}
+              </p>
+            </div>
+            <div className="flex gap-1 shrink-0">
+              <button onClick={() => onResume(session.id)} className="px-3 py-1.5 text-xs font-bold text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg flex items-center gap-1">
+                <Play className="w-3 h-3" /> Resume
+              </button>
+              <button onClick={() => onDiscard(session.id)} title="Discard session" className="p-1.5 text-slate-400 hover:text-rose-600 hover:bg-rose-50 dark:hover:bg-rose-900/20 rounded-lg">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SavedSessionsPanel;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { AlertCircle, AlertTriangle, Globe, Loader2, ShieldCheck, X } from 'lucide-react';
+import { ImageTask, ValidationIssue } from '../types';
+
+interface ValidationPanelProps {
+  issues: ValidationIssue[];
+  tasksById: Map<string, ImageTask>;
+  /** Progress of the HEAD check while it runs */
+  urlCheck: { done: number; total: number } | null;
+  disabled?: boolean;
+  onCheckUrls: () => void;
+  onCancelCheck: () => void;
+  onDeselectErrors: () => void;
+}
+
+const MAX_LISTED = 200;
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ issues, tasksById, urlCheck, disabled, onCheckUrls, onCancelCheck, onDeselectErrors }) => {
+  const errors = issues.filter(i => i.severity === 'error');
+  const warnings = issues.length - errors.length;
+  const selectedWithErrors = new Set(errors.filter(i => tasksById.get(i.taskId)?.isSelected).map(i => i.taskId)).size;
+  // Long lists are cut short until asked for, so a bad import doesn't render thousands of rows at once
+  const [showAll, setShowAll] = useState(false);
+  const listed = showAll ? issues : issues.slice(0, MAX_LISTED);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="w-4 h-4 text-blue-500" />
+          <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Pre-flight Check</label>
+        </div>
+        <span className="text-[11px] font-semibold">
+          <span className={errors.length ? 'text-rose-600 dark:text-rose-400' : 'text-slate-400'}>{errors.length} errors</span>
+          <span className="text-slate-300 dark:text-slate-600"> · </span>
+          <span className={warnings ? 'text-amber-600 dark:text-amber-400' : 'text-slate-400'}>{warnings} warnings</span>
+        </span>
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="max-h-[160px] overflow-y-auto custom-scrollbar space-y-1 text-[11px]">
+          {listed.map((issue, index) => {
+            const task = tasksById.get(issue.taskId);
+            return (
+              <li key={`${issue.taskId}-${issue.code}-${index}`} className="flex items-start gap-1.5">
+                {issue.severity === 'error'
+                  ? <AlertCircle className="w-3 h-3 mt-0.5 shrink-0 text-rose-500" />
+                  : <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0 text-amber-500" />}
+                <span className="text-slate-600 dark:text-slate-300">
+                  <span className="font-semibold">{task?.fullName || 'Unnamed'}</span>
+                  {task && <span className="text-slate-400"> ({task.sheet}, row {task.rowIndex + 1})</span>}: {issue.message}
+                </span>
+              </li>
+            );
+          })}
+          {issues.length > listed.length && (
+            <li>
+              <button onClick={() => setShowAll(true)} className="text-blue-600 dark:text-blue-400 font-semibold hover:underline">
+                Show {issues.length - listed.length} more
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {urlCheck ? (
+          <button onClick={onCancelCheck} className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 flex items-center gap-1.5">
+            <Loader2 className="w-3.5 h-3.5 animate-spin" /> {urlCheck.done}/{urlCheck.total} checked <X className="w-3.5 h-3.5" />
+          </button>
+        ) : (
+          <button onClick={onCheckUrls} disabled={disabled} className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-blue-300 flex items-center gap-1.5 disabled:opacity-50">
+            <Globe className="w-3.5 h-3.5" /> Check URLs online
+          </button>
+        )}
+        {selectedWithErrors > 0 && (
+          <button onClick={onDeselectErrors} disabled={disabled} className="px-3 py-1.5 rounded-lg text-xs font-semibold text-rose-600 dark:text-rose-400 hover:bg-rose-50 dark:hover:bg-rose-900/20 disabled:opacity-50">
+            Deselect {selectedWithErrors} rows with errors
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ValidationPanel;
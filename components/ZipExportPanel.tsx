@@ -0,0 +1,57 @@
+import React from 'react';
+import { Archive } from 'lucide-react';
+import { ZipExportSettings } from '../types';
+import { canSaveToFolder, MAX_DOWNLOAD_PART_MB } from '../services/zipExport';
+
+interface ZipExportPanelProps {
+  settings: ZipExportSettings;
+  disabled?: boolean;
+  onChange: (settings: ZipExportSettings) => void;
+}
+
+const ZipExportPanel: React.FC<ZipExportPanelProps> = ({ settings, disabled, onChange }) => {
+  const folderSupported = canSaveToFolder();
+
+  return (
+    <div className="mt-6 w-full max-w-2xl bg-slate-50/50 dark:bg-slate-800/50 p-5 rounded-2xl border border-slate-200 dark:border-slate-700 text-left space-y-3">
+      <div className="flex items-center gap-2">
+        <Archive className="w-4 h-4 text-blue-500" />
+        <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">ZIP Export</label>
+      </div>
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-3 text-xs text-slate-600 dark:text-slate-300">
+        <label className="flex items-center gap-2">
+          Split into parts of
+          <input
+            type="number"
+            min={0}
+            step={100}
+            value={settings.maxPartMB}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...settings, maxPartMB: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-20 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-blue-500 outline-none dark:text-white disabled:opacity-50"
+          />
+          MB
+        </label>
+        <label className={`flex items-center gap-2 ${folderSupported ? '' : 'opacity-50'}`}>
+          <input
+            type="checkbox"
+            checked={folderSupported && settings.saveToFolder}
+            disabled={disabled || !folderSupported}
+            onChange={(e) => onChange({ ...settings, saveToFolder: e.target.checked })}
+          />
+          Save directly to a folder
+        </label>
+      </div>
+      <p className="text-[11px] text-slate-400">
+        {folderSupported && settings.saveToFolder
+          ? <>
+              ZIP files are streamed to disk as they are written, so very large batches do not need to fit in memory.
+              {settings.maxPartMB === 0 && ' Set a size to split large batches; 0 always writes a single ZIP.'}
+            </>
+          : `Each ZIP part is assembled in memory and then downloaded, so parts are kept to ${MAX_DOWNLOAD_PART_MB} MB at most. Your browser may ask before allowing several downloads.`}
+      </p>
+    </div>
+  );
+};
+
+export default ZipExportPanel;
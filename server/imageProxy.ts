@@ -0,0 +1,119 @@
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+import { IMAGE_PROXY_PATH, PROXY_ERROR_HEADER, PROXY_MARKER_HEADER } from '../services/proxy';
+
+export const DEFAULT_ALLOWED_HOSTS = ['*.cvent.com'];
+
+const UPSTREAM_TIMEOUT_MS = 30000;
+const MAX_REDIRECTS = 5;
+
+// Upstream headers worth passing on; everything else (cookies etc.) is dropped.
+const FORWARDED_HEADERS = ['content-type', 'content-length', 'cache-control', 'etag', 'last-modified', 'retry-after'];
+
+/**
+ * Parses a comma-separated allowlist such as "images.example.com,*.cvent.com".
+ */
+export function parseAllowedHosts(value: string | undefined): string[] {
+  const hosts = (value || '').split(',').map(h => h.trim().toLowerCase()).filter(Boolean);
+  return hosts.length ? hosts : DEFAULT_ALLOWED_HOSTS;
+}
+
+/**
+ * `*.example.com` matches any subdomain of example.com but not example.com
+ * itself; anything else must match the hostname exactly.
+ */
+export function isHostAllowed(hostname: string, allowedHosts: string[]): boolean {
+  const host = hostname.toLowerCase();
+  return allowedHosts.some(pattern =>
+    pattern.startsWith('*.') ? host.endsWith(pattern.slice(1)) : host === pattern
+  );
+}
+
+const fail = (res: ServerResponse, status: number, reason: string) => {
+  res.statusCode = status;
+  res.setHeader(PROXY_ERROR_HEADER, reason);
+  res.setHeader('Content-Type', 'text/plain');
+  res.end(reason);
+};
+
+/**
+ * Follows redirects by hand so every hop is checked against the allowlist.
+ */
+async function fetchAllowed(target: URL, method: string, allowedHosts: string[], signal: AbortSignal): Promise<Response | string> {
+  let url = target;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return `Unsupported protocol ${url.protocol}`;
+    if (!isHostAllowed(url.hostname, allowedHosts)) return `Host not allowed: ${url.hostname}`;
+
+    const response = await fetch(url, { method, redirect: 'manual', signal, headers: { Accept: 'image/*,*/*;q=0.8' } });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+    url = new URL(location, url);
+  }
+  return 'Too many redirects';
+}
+
+function createProxyHandler(allowedHosts: string[]) {
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    res.setHeader(PROXY_MARKER_HEADER, '1');
+    if (req.method !== 'GET' && req.method !== 'HEAD') return fail(res, 405, 'Only GET and HEAD are proxied');
+
+    const target = new URL(req.url || '', 'http://localhost').searchParams.get('url');
+    if (!target) {
+      // Bare requests are how the app detects the proxy
+      res.statusCode = 204;
+      return res.end();
+    }
+
+    let url: URL;
+    try {
+      url = new URL(target);
+    } catch {
+      return fail(res, 400, 'Invalid URL');
+    }
+
+    const abort = new AbortController();
+    res.on('close', () => abort.abort());
+
+    let upstream: Response | string;
+    try {
+      upstream = await fetchAllowed(url, req.method, allowedHosts, AbortSignal.any([abort.signal, AbortSignal.timeout(UPSTREAM_TIMEOUT_MS)]));
+    } catch (err) {
+      if (abort.signal.aborted) return;
+      const timedOut = err instanceof DOMException && err.name === 'TimeoutError';
+      return fail(res, timedOut ? 504 : 502, timedOut ? 'Upstream timed out' : 'Upstream unreachable');
+    }
+    if (typeof upstream === 'string') return fail(res, 403, upstream);
+
+    res.statusCode = upstream.status;
+    FORWARDED_HEADERS.forEach(name => {
+      const value = upstream.headers.get(name);
+      if (value) res.setHeader(name, value);
+    });
+    if (!upstream.body || req.method === 'HEAD') return res.end();
+
+    Readable.fromWeb(upstream.body as NodeReadableStream<Uint8Array>)
+      .on('error', () => res.destroy())
+      .pipe(res);
+  };
+}
+
+/**
+ * Adds an image proxy to the dev and preview servers for hosts that don't
+ * send CORS headers. Only hosts on the allowlist are fetched, so the server
+ * can't be used to reach arbitrary addresses.
+ */
+export function imageProxy(options: { allowedHosts: string[] }): Plugin {
+  const handler = createProxyHandler(options.allowedHosts);
+  return {
+    name: 'image-proxy',
+    configureServer(server) {
+      server.middlewares.use(IMAGE_PROXY_PATH, handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(IMAGE_PROXY_PATH, handler);
+    }
+  };
+}
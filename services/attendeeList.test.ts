@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { ImageTask } from '../types';
+import { matchAttendeeList, parseAttendeeList } from './attendeeList';
+import { makeTask } from './testUtils';
+
+const task = (id: string, fullName: string, fields: Record<string, string> = {}): ImageTask =>
+  makeTask(id, { fullName, filename: `${id}.jpg`, fields: { 'Full Name': fullName, ...fields } });
+
+const jane = task('jane', 'Jane Doe', { Email: 'jane@acme.test', 'Reg ID': '12', Company: 'Acme', Role: 'Speaker' });
+const john = task('john', 'John Smith', { Email: 'john@globex.test', 'Reg ID': '40', Company: 'Acme', Role: 'Speaker', Table: '12' });
+const janeToo = task('jane2', 'Jane Doe', { Email: 'jdoe@initech.test', 'Reg ID': '77', Company: 'Initech', Role: 'Guest' });
+const tasks = [jane, john, janeToo];
+
+const match = (text: string, mode: Parameters<typeof matchAttendeeList>[2] = 'case-insensitive') =>
+  matchAttendeeList(parseAttendeeList(text), tasks, mode).map(m => ({ label: m.entry.label, ids: m.matches.map(t => t.id), mode: m.mode }));
+
+describe('parseAttendeeList', () => {
+  it('reads one entry per line and drops blanks and repeats', () => {
+    expect(parseAttendeeList('Jane Doe\n\n  Doe, John \nJane Doe\n')).toEqual([
+      { label: 'Jane Doe', values: ['Jane Doe'] },
+      { label: 'Doe, John', values: ['Doe, John'] }
+    ]);
+  });
+
+  it('splits copied spreadsheet rows at tabs', () => {
+    expect(parseAttendeeList('Jane Doe\tAcme\n')).toEqual([{ label: 'Jane Doe · Acme', values: ['Jane Doe', 'Acme'] }]);
+  });
+});
+
+describe('matchAttendeeList', () => {
+  it('matches names, emails and ID columns', () => {
+    expect(match('John Smith\njane@acme.test\n77')).toEqual([
+      { label: 'John Smith', ids: ['john'], mode: 'exact' },
+      { label: 'jane@acme.test', ids: ['jane'], mode: 'exact' },
+      { label: '77', ids: ['jane2'], mode: 'exact' }
+    ]);
+  });
+
+  it('ignores case, accents and name order when allowed', () => {
+    expect(match('JOHN SMITH\nSmith, John\nJöhn Smith').map(m => m.ids)).toEqual([['john'], ['john'], ['john']]);
+    expect(match('JOHN SMITH', 'exact')[0].ids).toEqual([]);
+  });
+
+  it('does not match on other columns such as company, role or table', () => {
+    expect(match('Acme\nSpeaker').map(m => m.ids)).toEqual([[], []]);
+    expect(match('12')[0].ids).toEqual(['jane']);
+  });
+
+  it('uses the other cells of a row to pick between namesakes', () => {
+    expect(match('Jane Doe')[0].ids).toEqual(['jane', 'jane2']);
+    expect(match('Jane Doe\tAcme\tSpeaker')[0].ids).toEqual(['jane']);
+    expect(match('Jane Doe\tInitech')[0].ids).toEqual(['jane2']);
+  });
+
+  it('skips a header row', () => {
+    expect(match('Full Name\tEmail\nJohn Smith\tjohn@globex.test').map(m => m.label)).toEqual(['John Smith · john@globex.test']);
+  });
+
+  it('allows small typos in fuzzy mode only', () => {
+    expect(match('Jonh Smith')[0].ids).toEqual([]);
+    expect(match('Jonh Smith', 'fuzzy')[0]).toEqual({ label: 'Jonh Smith', ids: ['john'], mode: 'fuzzy' });
+  });
+});
@@ -0,0 +1,172 @@
+import { ImageTask, ListMatchMode } from '../types';
+import { normalizeName } from '../utils';
+import { parseDelimited } from './inputSources';
+
+export interface ListEntry {
+  /** The line as shown back to the user */
+  label: string;
+  /** Every cell of the line, e.g. name, email and company */
+  values: string[];
+}
+
+export interface ListMatch {
+  entry: ListEntry;
+  matches: ImageTask[];
+  /** The strictest mode that found the matches, null when nothing matched */
+  mode: ListMatchMode | null;
+}
+
+export const LIST_MATCH_MODES: { value: ListMatchMode; label: string }[] = [
+  { value: 'exact', label: 'Exact' },
+  { value: 'case-insensitive', label: 'Ignore case' },
+  { value: 'fuzzy', label: 'Fuzzy' }
+];
+
+/**
+ * Reads one entry per line. Lines copied from a spreadsheet are split into
+ * cells at tabs; commas are kept so 'Doe, Jane' stays one name. Blank and
+ * repeated lines are dropped.
+ */
+export function parseAttendeeList(text: string): ListEntry[] {
+  const rows = text.includes('\t') ? parseDelimited(text, '\t') : text.split(/\r?\n/).map(line => [line]);
+
+  const seen = new Set<string>();
+  return rows
+    .map(cells => cells.map(c => c.trim()).filter(Boolean))
+    .filter(values => values.length > 0)
+    .map(values => ({ label: values.join(' · '), values }))
+    .filter(entry => !seen.has(entry.label) && !!seen.add(entry.label));
+}
+
+const fold = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+// 'Jane Doe', 'Doe, Jane' and 'Jane Q. Doe' all become 'doe.jane'
+const nameKey = (value: string) => fold(normalizeName(fold(value)));
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Typos allowed in a fuzzy name match: about one per five letters, at most two
+const fuzzyLimit = (key: string) => Math.min(2, Math.floor(key.length / 5));
+
+// Columns that identify an attendee on their own, such as 'Email Address' or 'Registration ID'
+const IDENTIFIER_COLUMN = /(^|[^a-z])(e-?mail|id|code|number|no|ref|reference|confirmation|badge)([^a-z]|$)/i;
+
+// Header cells commonly found at the top of an exported list
+const HEADER_WORDS = new Set(['name', 'full name', 'first name', 'last name', 'email', 'e-mail', 'id']);
+
+interface Candidate {
+  task: ImageTask;
+  /** Every cell of the row, plus the name, as written */
+  cells: Set<string>;
+  /** The name and identifier cells as written */
+  ids: Set<string>;
+  foldedCells: Set<string>;
+  foldedIds: Set<string>;
+  nameKey: string;
+}
+
+const toCandidate = (task: ImageTask): Candidate => {
+  const clean = (values: string[]) => new Set(values.map(v => v.trim()).filter(Boolean));
+  const fields = Object.entries(task.fields);
+  const cells = clean([task.fullName, ...fields.map(([, value]) => value)]);
+  const ids = clean([task.fullName, ...fields.filter(([header, value]) => IDENTIFIER_COLUMN.test(header) || value.includes('@')).map(([, value]) => value)]);
+  return { task, cells, ids, foldedCells: new Set(Array.from(cells, fold)), foldedIds: new Set(Array.from(ids, fold)), nameKey: nameKey(task.fullName) };
+};
+
+/**
+ * Whether an entry is the header row of an uploaded list: every cell is a
+ * column name of the tasks or a usual header such as 'Email'.
+ */
+const isHeaderEntry = (entry: ListEntry, tasks: ImageTask[]): boolean => {
+  const headers = new Set(tasks.flatMap(t => Object.keys(t.fields)).map(fold));
+  return entry.values.every(v => headers.has(fold(v)) || HEADER_WORDS.has(fold(v)));
+};
+
+/**
+ * Keeps the candidates that match the entry on their name or an identifier
+ * such as an email or registration ID, ranked by how many of the entry's
+ * cells they match; only the best-ranked ones are returned. Other cells,
+ * such as a company, only break ties.
+ */
+const rank = (candidates: Candidate[], identifies: (c: Candidate) => boolean, score: (c: Candidate) => number): Candidate[] => {
+  let best = 0;
+  let found: Candidate[] = [];
+  candidates.filter(identifies).forEach(c => {
+    const points = score(c);
+    if (points < best) return;
+    if (points > best) {
+      best = points;
+      found = [];
+    }
+    found.push(c);
+  });
+  return found;
+};
+
+/**
+ * Matches each list entry against the tasks by full name, 'Last.First' name,
+ * email or ID column. Stricter matching is tried first and looser matching
+ * only for entries it missed; 'fuzzy' allows small spelling differences in
+ * names. A header row at the top of the list is ignored. Entries can match
+ * several tasks, which the caller should show for review.
+ */
+export function matchAttendeeList(entries: ListEntry[], tasks: ImageTask[], mode: ListMatchMode): ListMatch[] {
+  const candidates = tasks.map(toCandidate);
+
+  const levels: { mode: ListMatchMode; find: (values: string[]) => Candidate[] }[] = [
+    {
+      mode: 'exact',
+      find: values => rank(candidates, c => values.some(v => c.ids.has(v)), c => values.filter(v => c.cells.has(v)).length)
+    },
+    {
+      mode: 'case-insensitive',
+      find: values => {
+        const folded = values.map(fold);
+        const names = values.map(nameKey);
+        return rank(
+          candidates,
+          c => folded.some(v => c.foldedIds.has(v)) || names.includes(c.nameKey),
+          c => folded.filter((v, i) => c.foldedCells.has(v) || names[i] === c.nameKey).length
+        );
+      }
+    },
+    {
+      mode: 'fuzzy',
+      find: values => {
+        // Only the closest names count, so one typo doesn't also pull in everyone two typos away
+        let best = Infinity;
+        let found: Candidate[] = [];
+        values.map(nameKey).forEach(key => candidates.forEach(c => {
+          const distance = editDistance(key, c.nameKey);
+          if (distance > fuzzyLimit(key) || distance > best) return;
+          if (distance < best) {
+            best = distance;
+            found = [];
+          }
+          if (!found.includes(c)) found.push(c);
+        }));
+        return found;
+      }
+    }
+  ];
+  const allowed = levels.slice(0, LIST_MATCH_MODES.findIndex(m => m.value === mode) + 1);
+  const listed = entries.length > 0 && isHeaderEntry(entries[0], tasks) ? entries.slice(1) : entries;
+
+  return listed.map(entry => {
+    for (const level of allowed) {
+      const found = level.find(entry.values);
+      if (found.length) return { entry, matches: found.map(c => c.task), mode: level.mode };
+    }
+    return { entry, matches: [], mode: null };
+  });
+}
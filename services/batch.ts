@@ -0,0 +1,184 @@
+import {
+  CollisionSettings, ColumnMapping, DedupeSettings, FetchMode, FilenameTemplate, FolderLayout, ImageProcessingSettings,
+  ImageTask, OutputFormatSettings, ParsedSheet, ProcessingSummary, ResponsePolicy, RetryPolicy, RowFilter, SchedulerSettings, ZipProgress
+} from '../types';
+import { toCsvRow } from '../utils';
+import { buildTasks, getMappingIssue } from './columnMapping';
+import { resolveCollisions } from './collisions';
+import { dedupeAcrossSources } from './dedupe';
+import { downloadImage } from './downloader';
+import { hostOf, QueueControl, runScheduled } from './downloadQueue';
+import { applyFilenameTemplate } from './filenameTemplate';
+import { applyFolderLayout } from './folderLayout';
+import { buildReport, reportFilename } from './report';
+import { compileRowFilter, EMPTY_ROW_FILTER } from './rowFilter';
+import { planZipParts, prepareImageEntries, streamZip, ZipEntry, ZipSink, zipPartName } from './zipExport';
+
+// The batch pipeline without any UI: shared by App and the command-line runner
+// so both parse, name, download and package attendees the same way.
+
+export const batchName = (files: { name: string }[]) =>
+  files.length === 0 ? 'Untitled batch' : files.length === 1 ? files[0].name : `${files[0].name} + ${files.length - 1} more`;
+
+export const batchBaseName = () => `Cvent_Batch_${new Date().toISOString().split('T')[0]}`;
+
+export interface BatchTasks {
+  tasks: ImageTask[];
+  /** Sheets that produced tasks */
+  mappedSheets: string[];
+  /** Sheets left out because their mapping is incomplete */
+  skippedSheets: string[];
+}
+
+/**
+ * Builds tasks from every sheet whose mapping is usable. Attendees listed in
+ * several input files are merged when `dedupe` is given.
+ */
+export function buildBatchTasks(sheets: ParsedSheet[], mappings: Record<string, ColumnMapping>, dedupe?: DedupeSettings): BatchTasks {
+  const tasks: ImageTask[] = [];
+  const mappedSheets: string[] = [];
+  const skippedSheets: string[] = [];
+
+  sheets.forEach(sheet => {
+    const mapping = mappings[sheet.name];
+    if (getMappingIssue(sheet, mapping)) {
+      skippedSheets.push(sheet.name);
+      return;
+    }
+    mappedSheets.push(sheet.name);
+    tasks.push(...buildTasks(sheet, mapping));
+  });
+
+  return { tasks: dedupe ? dedupeAcrossSources(tasks, dedupe) : tasks, mappedSheets, skippedSheets };
+}
+
+export interface SelectionCriteria {
+  sheets: Set<string>;
+  /** yyyy-mm-dd, inclusive; '' leaves that end open */
+  startDate: string;
+  endDate: string;
+  /** Keep rows without a registration date while a date range is set */
+  includeUndated?: boolean;
+  rowFilter?: RowFilter;
+}
+
+/**
+ * Selects the tasks in the chosen sheets whose registration date falls in
+ * the range and that pass the row filter. Rows without a date only pass a
+ * date range when `includeUndated` is set.
+ */
+export function applySelectionFilter(tasks: ImageTask[], criteria: SelectionCriteria): ImageTask[] {
+  const start = criteria.startDate ? new Date(criteria.startDate) : null;
+  const end = criteria.endDate ? new Date(criteria.endDate) : null;
+  if (end) end.setHours(23, 59, 59, 999); // End of day
+  const passesRowFilter = compileRowFilter(criteria.rowFilter ?? EMPTY_ROW_FILTER);
+
+  return tasks.map(task => {
+    let isMatch = criteria.sheets.has(task.sheet);
+    if (isMatch && task.registrationDate) {
+      if (start && task.registrationDate < start) isMatch = false;
+      if (end && task.registrationDate > end) isMatch = false;
+    } else if (isMatch && (start || end) && !criteria.includeUndated) {
+      isMatch = false;
+    }
+    return { ...task, isSelected: isMatch && passesRowFilter(task) };
+  });
+}
+
+/**
+ * Renders filenames and folders, then resolves duplicate paths.
+ */
+export function applyOutputPaths(tasks: ImageTask[], template: FilenameTemplate, layout: FolderLayout, collisions: CollisionSettings): ImageTask[] {
+  return resolveCollisions(applyFolderLayout(applyFilenameTemplate(tasks, template), layout), collisions);
+}
+
+export interface DownloadRunOptions {
+  scheduler: SchedulerSettings;
+  retryPolicy: RetryPolicy;
+  responsePolicy: ResponsePolicy;
+  fetchMode: FetchMode;
+  control: QueueControl;
+  onStart?: (task: ImageTask) => void;
+  onResult: (result: ImageTask) => void;
+}
+
+/**
+ * Downloads the queued tasks. Resolves with the tasks that never started
+ * because the run was cancelled.
+ */
+export function downloadTasks(queue: ImageTask[], options: DownloadRunOptions): Promise<ImageTask[]> {
+  return runScheduled<ImageTask>(queue, options.scheduler, options.control, task => hostOf(task.url), async (task, signal, throttle) => {
+    options.onStart?.(task);
+    options.onResult(await downloadImage(task, options.retryPolicy, signal, { fetchMode: options.fetchMode, throttle, responsePolicy: options.responsePolicy }));
+  });
+}
+
+/**
+ * CSV listing how duplicate filenames were resolved, or null when there were none.
+ */
+export function buildCollisionReport(tasks: ImageTask[]): string | null {
+  const collided = tasks.filter(t => t.collision && t.isSelected);
+  if (collided.length === 0) return null;
+
+  const rows = [toCsvRow(['Sheet', 'Full Name', 'Original Filename', 'Final Filename', 'Resolution', 'Group Size', 'Status'])];
+  collided.forEach(t => {
+    const c = t.collision!;
+    rows.push(toCsvRow([t.sheet, t.fullName, c.baseFilename, c.resolution === 'skipped' ? '' : t.filename, c.resolution, c.groupSize, t.status]));
+  });
+  return rows.join('\n') + '\n';
+}
+
+export interface ArchiveOptions {
+  baseName: string;
+  maxPartMB: number;
+  processing: ImageProcessingSettings;
+  output: OutputFormatSettings;
+  openSink: (filename: string) => Promise<ZipSink>;
+  onProgress?: (progress: ZipProgress) => void;
+}
+
+export interface ArchiveResult {
+  summary: ProcessingSummary;
+  /** Task id to the path it was written under */
+  written: Map<string, string>;
+}
+
+/**
+ * Packages the completed images of a batch into one or more ZIPs, with the
+ * collision and run reports in the last part. Excluded images are left out.
+ */
+export async function writeArchive(tasks: ImageTask[], options: ArchiveOptions): Promise<ArchiveResult> {
+  const completed = tasks.filter(t => t.status === 'completed' && t.blob && !t.excluded);
+  const collisionReport = buildCollisionReport(tasks);
+  const reports: ZipEntry[] = collisionReport ? [{ path: "collisions_report.csv", data: collisionReport }] : [];
+
+  // Parts are prepared and written one at a time so only one part's images are held twice
+  const parts = planZipParts(completed, options.maxPartMB);
+  const writtenPaths = new Set<string>();
+  const written = new Map<string, string>();
+  const summary: ProcessingSummary = { files: 0, processed: 0, failed: 0, originalBytes: 0, outputBytes: 0 };
+
+  for (let i = 0; i < parts.length; i++) {
+    let lastPercent = -1;
+    const report = (phase: ZipProgress['phase'], percent: number) => {
+      if (Math.floor(percent) === lastPercent) return;
+      lastPercent = Math.floor(percent);
+      options.onProgress?.({ part: i + 1, parts: parts.length, phase, percent: lastPercent });
+    };
+
+    report('preparing', 0);
+    const entries = await prepareImageEntries(parts[i], options.processing, options.output, writtenPaths, summary,
+      done => report('preparing', (done / parts[i].length) * 100));
+    entries.forEach(e => e.taskId && written.set(e.taskId, e.path));
+    // Reports go in the last part, once every image's final path is known
+    if (i === parts.length - 1) {
+      entries.push(...reports, { path: reportFilename('run', 'csv'), data: buildReport(tasks, 'csv', written) });
+    }
+
+    lastPercent = -1;
+    const sink = await options.openSink(zipPartName(options.baseName, i + 1, parts.length));
+    await streamZip(entries, sink, percent => report('writing', percent));
+  }
+
+  return { summary, written };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { ImageTask } from '../types';
+import { getOutputPath, resolveCollisions } from './collisions';
+import { makeTask } from './testUtils';
+
+// Files in the ZIP root, so paths are just the filenames
+const task = (id: string, overrides: Partial<ImageTask> = {}): ImageTask => makeTask(id, { folder: '', ...overrides });
+
+const filenames = (tasks: ImageTask[]) => tasks.map(t => t.filename);
+
+describe('getOutputPath', () => {
+  it('falls back to the sheet folder for tasks without a layout', () => {
+    expect(getOutputPath(task('a', { folder: undefined }))).toBe('Attendees/Doe.Jane.jpg');
+    expect(getOutputPath(task('a'))).toBe('Doe.Jane.jpg');
+  });
+});
+
+describe('resolveCollisions', () => {
+  it('numbers clashing names after the first', () => {
+    const result = resolveCollisions([task('a'), task('b'), task('c')], { strategy: 'suffix' });
+    expect(filenames(result)).toEqual(['Doe.Jane.jpg', 'Doe.Jane-2.jpg', 'Doe.Jane-3.jpg']);
+    expect(result.map(t => t.collision?.resolution)).toEqual(['kept', 'suffix', 'suffix']);
+  });
+
+  it('treats names differing only in case or extension as a clash', () => {
+    const result = resolveCollisions([task('a'), task('b', { filename: 'doe.jane.png' })], { strategy: 'suffix' });
+    expect(filenames(result)).toEqual(['Doe.Jane.jpg', 'Doe.Jane-2.png']);
+  });
+
+  it('does not reuse a name another attendee already has', () => {
+    const result = resolveCollisions([task('a'), task('b'), task('c', { filename: 'Doe.Jane-2.jpg', fullName: 'Other' })], { strategy: 'suffix' });
+    expect(filenames(result)).toEqual(['Doe.Jane.jpg', 'Doe.Jane-3.jpg', 'Doe.Jane-2.jpg']);
+  });
+
+  it('appends a column value, numbering when it is missing', () => {
+    const result = resolveCollisions([
+      task('a', { fields: { ID: '17' } }),
+      task('b', { fields: { ID: '' } }),
+      task('c', { fields: { ID: '42' } })
+    ], { strategy: 'column', column: 'ID' });
+    expect(filenames(result)).toEqual(['Doe.Jane_17.jpg', 'Doe.Jane-2.jpg', 'Doe.Jane_42.jpg']);
+  });
+
+  it('skips pending duplicates and restores them when resolved again', () => {
+    const skipped = resolveCollisions([task('a'), task('b')], { strategy: 'skip' });
+    expect(skipped[1]).toMatchObject({ status: 'skipped', collision: { resolution: 'skipped' } });
+
+    const restored = resolveCollisions(skipped, { strategy: 'suffix' });
+    expect(restored[1]).toMatchObject({ status: 'pending', filename: 'Doe.Jane-2.jpg' });
+  });
+
+  it('leaves deselected rows out of the groups', () => {
+    const tasks = [task('a', { isSelected: false }), task('b')];
+    expect(resolveCollisions(tasks, { strategy: 'skip' }).map(t => [t.status, t.collision])).toEqual([['pending', undefined], ['pending', undefined]]);
+    expect(filenames(resolveCollisions(tasks, { strategy: 'suffix' }))).toEqual(['Doe.Jane.jpg', 'Doe.Jane.jpg']);
+  });
+
+  it('still counts deselected rows that were already downloaded', () => {
+    const result = resolveCollisions([task('a', { isSelected: false, status: 'completed' }), task('b')], { strategy: 'suffix' });
+    expect(filenames(result)).toEqual(['Doe.Jane.jpg', 'Doe.Jane-2.jpg']);
+  });
+
+  it('ignores attendees merged away as duplicates', () => {
+    const result = resolveCollisions([task('a', { duplicateOf: 'b', status: 'skipped' }), task('b')], { strategy: 'suffix' });
+    expect(result[1].collision).toBeUndefined();
+  });
+});
@@ -0,0 +1,129 @@
+import { CollisionSettings, ImageTask } from '../types';
+import { splitExtension } from '../utils';
+
+const STORAGE_KEY = 'cvent-batcher:collision-settings';
+
+export const DEFAULT_COLLISION_SETTINGS: CollisionSettings = { strategy: 'suffix' };
+
+/**
+ * Path of the task inside the generated ZIP. Tasks from before folder
+ * layouts existed are grouped by sheet, as they always were.
+ */
+export function getOutputPath(task: ImageTask): string {
+  const folder = task.folder ?? task.sheet;
+  return folder ? `${folder}/${task.filename}` : task.filename;
+}
+
+// Most unzip targets (Windows, default macOS) are case-insensitive. The
+// extension is ignored because it follows the downloaded format, so
+// Smith.John.jpg and Smith.John.png are still the same person's slot.
+const pathKey = (task: ImageTask) => splitExtension(getOutputPath(task))[0].toLowerCase();
+
+const sanitizeSuffix = (value: string) =>
+  value.replace(/[<>:"/\\|?*\u0000-\u001f]/g, '').replace(/\s+/g, '_').trim();
+
+/**
+ * Undoes a previous resolution so tasks can be resolved again from freshly
+ * rendered filenames.
+ */
+const clearCollision = (task: ImageTask): ImageTask => {
+  if (!task.collision) return task;
+  const { collision, ...rest } = task;
+  return collision.resolution === 'skipped' && task.status === 'skipped'
+    ? { ...rest, status: 'pending', error: undefined }
+    : rest;
+};
+
+// Attendees merged away as duplicates from another file are never written,
+// and neither are deselected ones unless they were already downloaded
+const isWritten = (task: ImageTask) => !task.duplicateOf && (task.isSelected || task.status === 'completed');
+
+/**
+ * Finds tasks whose output paths clash and renames or skips all but the first
+ * according to the chosen strategy. Only tasks that will be written take
+ * part, so it needs to run again when the selection changes. Filenames must
+ * be freshly rendered from the template before calling this.
+ */
+export function resolveCollisions(tasks: ImageTask[], settings: CollisionSettings): ImageTask[] {
+  const cleared = tasks.map(clearCollision);
+
+  const groups = new Map<string, number[]>();
+  cleared.forEach((task, index) => {
+    if (!isWritten(task)) return;
+    const key = pathKey(task);
+    groups.set(key, [...(groups.get(key) || []), index]);
+  });
+
+  const used = new Set(cleared.filter(isWritten).map(pathKey));
+  const result = [...cleared];
+
+  const withUniqueName = (task: ImageTask, base: string): ImageTask => {
+    const ext = splitExtension(task.filename)[1];
+    let n = 2;
+    let candidate = { ...task, filename: `${base}-${n}${ext}` };
+    while (used.has(pathKey(candidate))) {
+      n += 1;
+      candidate = { ...task, filename: `${base}-${n}${ext}` };
+    }
+    used.add(pathKey(candidate));
+    return candidate;
+  };
+
+  groups.forEach(indexes => {
+    if (indexes.length < 2) return;
+
+    const baseFilename = cleared[indexes[0]].filename;
+    // Each member keeps its own extension, which follows its downloaded format
+    const base = splitExtension(baseFilename)[0];
+    const collision = { baseFilename, groupSize: indexes.length };
+
+    indexes.forEach((index, position) => {
+      const task = cleared[index];
+
+      if (settings.strategy === 'column' && settings.column) {
+        const value = sanitizeSuffix(task.fields[settings.column] || '');
+        const candidate = { ...task, filename: `${base}_${value}${splitExtension(task.filename)[1]}` };
+        if (value && !used.has(pathKey(candidate))) {
+          used.add(pathKey(candidate));
+          result[index] = { ...candidate, collision: { ...collision, resolution: 'column' } };
+          return;
+        }
+        if (position === 0) {
+          result[index] = { ...task, collision: { ...collision, resolution: 'kept' } };
+          return;
+        }
+        result[index] = { ...withUniqueName(task, base), collision: { ...collision, resolution: 'suffix' } };
+        return;
+      }
+
+      if (position === 0) {
+        result[index] = { ...task, collision: { ...collision, resolution: 'kept' } };
+      } else if (settings.strategy === 'skip') {
+        result[index] = task.status === 'pending'
+          ? { ...task, status: 'skipped', error: `Duplicate filename of ${cleared[indexes[0]].fullName}`, collision: { ...collision, resolution: 'skipped' } }
+          : { ...task, collision: { ...collision, resolution: 'kept' } };
+      } else {
+        result[index] = { ...withUniqueName(task, base), collision: { ...collision, resolution: 'suffix' } };
+      }
+    });
+  });
+
+  return result;
+}
+
+export function loadCollisionSettings(): CollisionSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_COLLISION_SETTINGS, ...JSON.parse(raw) } : DEFAULT_COLLISION_SETTINGS;
+  } catch {
+    return DEFAULT_COLLISION_SETTINGS;
+  }
+}
+
+export function saveCollisionSettings(settings: CollisionSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Could not save collision settings", err);
+  }
+}
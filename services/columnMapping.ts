@@ -0,0 +1,195 @@
+import { ColumnMapping, ImageTask, ParsedSheet } from '../types';
+import { cellToString, normalizeName, normalizeNameParts, parseExcelDate } from '../utils';
+
+type MappedField = 'fullName' | 'firstName' | 'lastName' | 'url' | 'registrationDate';
+
+const STORAGE_KEY = 'cvent-batcher:column-mappings';
+
+// Header names seen across Cvent exports, compared after lower-casing and
+// stripping everything but letters and digits.
+const EXACT_HEADERS: Record<MappedField, string[]> = {
+  fullName: ['fullname', 'name', 'attendeename', 'attendee', 'displayname'],
+  firstName: ['firstname', 'first', 'givenname', 'forename'],
+  lastName: ['lastname', 'last', 'surname', 'familyname'],
+  url: ['imageurl', 'photourl', 'headshot', 'headshoturl', 'photo', 'image', 'picture', 'pictureurl', 'profilephoto', 'profileimage', 'avatar'],
+  registrationDate: ['registrationdate', 'registeredon', 'registered', 'regdate', 'dateregistered', 'registrationdatetime', 'createddate']
+};
+
+// Looser fragments used when no header matches exactly, e.g. 'Attendee Photo URL'.
+const PARTIAL_HEADERS: Record<MappedField, string[]> = {
+  fullName: ['fullname', 'attendeename'],
+  firstName: ['firstname', 'givenname'],
+  lastName: ['lastname', 'surname', 'familyname'],
+  url: ['headshot', 'photo', 'image', 'picture', 'avatar'],
+  registrationDate: ['registrationdate', 'registered', 'regdate']
+};
+
+// Assignment order matters: split name columns are claimed before the looser
+// full-name fragments get a chance to match them.
+const FIELD_ORDER: MappedField[] = ['url', 'firstName', 'lastName', 'fullName', 'registrationDate'];
+
+interface SavedMappings {
+  bySignature: Record<string, ColumnMapping>;
+  last?: ColumnMapping;
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const headerSignature = (headers: string[]) => headers.map(normalizeHeader).join('|');
+
+/**
+ * True when a cell reads like one of the column names we know how to map.
+ */
+export function isKnownHeader(cell: string): boolean {
+  const key = normalizeHeader(cell);
+  return FIELD_ORDER.some(field => EXACT_HEADERS[field].includes(key));
+}
+
+/**
+ * Guesses a mapping from header names alone.
+ */
+export function suggestMapping(headers: string[]): ColumnMapping {
+  const found: Partial<Record<MappedField, string>> = {};
+  const used = new Set<string>();
+
+  const claim = (field: MappedField, candidates: string[], partial: boolean) => {
+    if (found[field]) return;
+    for (const candidate of candidates) {
+      const header = headers.find(h => {
+        if (used.has(h)) return false;
+        const key = normalizeHeader(h);
+        return partial ? key.includes(candidate) : key === candidate;
+      });
+      if (header) {
+        found[field] = header;
+        used.add(header);
+        return;
+      }
+    }
+  };
+
+  FIELD_ORDER.forEach(field => claim(field, EXACT_HEADERS[field], false));
+  FIELD_ORDER.forEach(field => claim(field, PARTIAL_HEADERS[field], true));
+
+  const hasExactFullName = !!found.fullName && EXACT_HEADERS.fullName.includes(normalizeHeader(found.fullName));
+  const useSplit = !hasExactFullName && !!found.firstName && !!found.lastName;
+
+  return {
+    nameMode: useSplit ? 'split' : 'full',
+    fullName: found.fullName,
+    firstName: found.firstName,
+    lastName: found.lastName,
+    url: found.url,
+    registrationDate: found.registrationDate
+  };
+}
+
+/**
+ * Explains why a mapping cannot produce tasks for a sheet, or returns null
+ * when it is usable.
+ */
+export function getMappingIssue(sheet: ParsedSheet, mapping: ColumnMapping | undefined): string | null {
+  if (sheet.headerRowIndex === -1) return 'No header row detected';
+  if (sheet.rows.length === 0) return 'Sheet has no data rows';
+  if (!mapping) return 'No column mapping';
+
+  const has = (column?: string) => !!column && sheet.headers.includes(column);
+  if (!has(mapping.url)) return 'No image URL column assigned';
+  if (mapping.nameMode === 'full' && !has(mapping.fullName)) return 'No name column assigned';
+  if (mapping.nameMode === 'split' && !has(mapping.firstName) && !has(mapping.lastName)) {
+    return 'No first or last name column assigned';
+  }
+  if (mapping.registrationDate && !has(mapping.registrationDate)) return 'Date column not found';
+  return null;
+}
+
+const readSaved = (): SavedMappings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : { bySignature: {} };
+  } catch {
+    return { bySignature: {} };
+  }
+};
+
+/**
+ * Picks the starting mapping for a sheet: the one saved for this exact header
+ * set, then the last one used if its columns exist here, then a fresh guess.
+ */
+export function resolveInitialMapping(sheet: ParsedSheet): ColumnMapping {
+  const saved = readSaved();
+  const exact = saved.bySignature[headerSignature(sheet.headers)];
+  if (exact) return exact;
+  if (saved.last && !getMappingIssue(sheet, saved.last)) return saved.last;
+  return suggestMapping(sheet.headers);
+}
+
+/**
+ * Remembers the mappings of successfully mapped sheets for the next upload.
+ */
+export function saveMappings(sheets: ParsedSheet[], mappings: Record<string, ColumnMapping>): void {
+  const saved = readSaved();
+  sheets.forEach(sheet => {
+    const mapping = mappings[sheet.name];
+    if (!mapping || getMappingIssue(sheet, mapping)) return;
+    saved.bySignature[headerSignature(sheet.headers)] = mapping;
+    saved.last = mapping;
+  });
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  } catch (err) {
+    console.warn("Could not save column mappings", err);
+  }
+}
+
+/**
+ * Turns the rows of a mapped sheet into pending download tasks. Rows without
+ * a name or URL are left out.
+ */
+export function buildTasks(sheet: ParsedSheet, mapping: ColumnMapping): ImageTask[] {
+  const tasks: ImageTask[] = [];
+  const stamp = Date.now();
+
+  sheet.rows.forEach(({ rowIndex, values }, index) => {
+    const fields: Record<string, string> = {};
+    sheet.headers.forEach(h => { fields[h] = cellToString(values[h]); });
+
+    const url = mapping.url ? fields[mapping.url] : '';
+    let fullName: string;
+    let firstName: string | undefined;
+    let lastName: string | undefined;
+    let filename: string;
+
+    if (mapping.nameMode === 'split') {
+      firstName = mapping.firstName ? fields[mapping.firstName] : '';
+      lastName = mapping.lastName ? fields[mapping.lastName] : '';
+      fullName = `${firstName} ${lastName}`.trim();
+      filename = normalizeNameParts(firstName, lastName);
+    } else {
+      fullName = mapping.fullName ? fields[mapping.fullName] : '';
+      filename = normalizeName(fullName);
+    }
+
+    // Rows without a photo have nothing to download; a missing name is left for validation to flag
+    if (!url) return;
+
+    tasks.push({
+      id: `${sheet.name}-${index}-${stamp}`,
+      sheet: sheet.name,
+      source: sheet.source,
+      sourceIndex: sheet.sourceIndex,
+      rowIndex,
+      fullName,
+      firstName,
+      lastName,
+      url,
+      filename: `${filename}.jpg`,
+      registrationDate: mapping.registrationDate ? parseExcelDate(values[mapping.registrationDate]) : null,
+      isSelected: true,
+      status: 'pending',
+      fields
+    });
+  });
+
+  return tasks;
+}
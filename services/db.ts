@@ -0,0 +1,54 @@
+const DB_NAME = 'cvent-batcher';
+const DB_VERSION = 2;
+
+// 'sessions' holds the small listing records, 'snapshots' the task lists and
+// 'blobs' one entry per downloaded image so a save never rewrites them all.
+export const SESSIONS = 'sessions';
+export const SNAPSHOTS = 'snapshots';
+export const BLOBS = 'blobs';
+// Run manifests are split the same way: listing records and their entries.
+export const MANIFESTS = 'manifests';
+export const MANIFEST_ENTRIES = 'manifestEntries';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(SESSIONS, { keyPath: 'id' });
+          db.createObjectStore(SNAPSHOTS);
+          db.createObjectStore(BLOBS, { keyPath: 'key' }).createIndex('sessionId', 'sessionId');
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(MANIFESTS, { keyPath: 'id' });
+          db.createObjectStore(MANIFEST_ENTRIES);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
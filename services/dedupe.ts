@@ -0,0 +1,70 @@
+import { DedupeSettings, ImageTask } from '../types';
+import { normalizeName, normalizeNameParts } from '../utils';
+
+const STORAGE_KEY = 'cvent-batcher:dedupe-settings';
+
+// Matching on the name alone would merge different people who share one
+export const DEFAULT_DEDUPE_SETTINGS: DedupeSettings = { mode: 'nameAndUrl', keep: 'last' };
+
+/**
+ * Matches 'Doe, Jane', 'Jane Doe' and 'jane  doe' to the same attendee by
+ * comparing the Last.First form.
+ */
+const dedupeKey = (task: ImageTask, mode: DedupeSettings['mode']): string => {
+  const name = (task.firstName !== undefined || task.lastName !== undefined
+    ? normalizeNameParts(task.firstName ?? '', task.lastName ?? '')
+    : normalizeName(task.fullName)
+  ).toLowerCase();
+  return mode === 'nameAndUrl' ? `${name}\u0000${task.url.trim()}` : name;
+};
+
+// Two uploads can share a file name, so files are told apart by position
+const sourceOf = (task: ImageTask) => task.sourceIndex ?? task.source;
+
+/**
+ * Marks attendees found in more than one uploaded file as skipped, keeping
+ * the row from the first or last file. Repeats within a single file are left
+ * to the duplicate filename handling.
+ */
+export function dedupeAcrossSources(tasks: ImageTask[], settings: DedupeSettings): ImageTask[] {
+  if (settings.mode === 'off') return tasks;
+
+  const groups = new Map<string, ImageTask[]>();
+  tasks.forEach(task => {
+    const key = dedupeKey(task, settings.mode);
+    groups.set(key, [...(groups.get(key) || []), task]);
+  });
+
+  const duplicates = new Map<string, ImageTask>();
+  groups.forEach(group => {
+    if (new Set(group.map(sourceOf)).size < 2) return;
+    const kept = settings.keep === 'first' ? group[0] : group[group.length - 1];
+    group
+      .filter(t => sourceOf(t) !== sourceOf(kept))
+      .forEach(t => duplicates.set(t.id, kept));
+  });
+
+  return tasks.map(task => {
+    const kept = duplicates.get(task.id);
+    return kept
+      ? { ...task, status: 'skipped', error: `Duplicate of ${kept.fullName} in ${kept.source}`, duplicateOf: kept.id }
+      : task;
+  });
+}
+
+export function loadDedupeSettings(): DedupeSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_DEDUPE_SETTINGS, ...JSON.parse(raw) } : DEFAULT_DEDUPE_SETTINGS;
+  } catch {
+    return DEFAULT_DEDUPE_SETTINGS;
+  }
+}
+
+export function saveDedupeSettings(settings: DedupeSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Could not save duplicate settings", err);
+  }
+}
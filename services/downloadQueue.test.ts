@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { SchedulerSettings } from '../types';
+import { createQueueControl, DEFAULT_SCHEDULER, hostMatches, hostOf, HostThrottle, runScheduled } from './downloadQueue';
+
+const settings = (overrides: Partial<SchedulerSettings> = {}): SchedulerSettings => ({ ...DEFAULT_SCHEDULER, ...overrides });
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+/**
+ * Worker that records how many items of each host run at once and lets the
+ * test decide what each item reports back to the throttle.
+ */
+const tracker = (report: (item: string, throttle: HostThrottle) => void = () => {}) => {
+  const active = new Map<string, number>();
+  const peaks: { host: string; active: number }[] = [];
+  const started: string[] = [];
+  const worker = async (item: string, _signal: AbortSignal, throttle: HostThrottle) => {
+    const host = hostOf(item);
+    started.push(item);
+    active.set(host, (active.get(host) ?? 0) + 1);
+    peaks.push({ host, active: active.get(host)! });
+    await tick();
+    report(item, throttle);
+    active.set(host, active.get(host)! - 1);
+  };
+  return { worker, peaks, started };
+};
+
+const urls = (host: string, count: number) => Array.from({ length: count }, (_, i) => `https://${host}/${i}.jpg`);
+
+describe('hostMatches', () => {
+  it('matches exact hosts and wildcard subdomains', () => {
+    expect(hostMatches('img.example.com', 'img.example.com')).toBe(true);
+    expect(hostMatches('img.example.com', '*.example.com')).toBe(true);
+    expect(hostMatches('example.com', '*.example.com')).toBe(false);
+    expect(hostMatches('img.other.com', 'img.example.com')).toBe(false);
+  });
+});
+
+describe('runScheduled', () => {
+  it('runs every item within the global and per-host limits', async () => {
+    const { worker, peaks, started } = tracker();
+    const items = [...urls('a.test', 6), ...urls('b.test', 6)];
+
+    const left = await runScheduled(items, settings({ concurrency: 3, perHostConcurrency: 2, adaptive: false }), createQueueControl(), hostOf, worker);
+
+    expect(left).toEqual([]);
+    expect(started.sort()).toEqual([...items].sort());
+    expect(Math.max(...peaks.map(p => p.active))).toBeLessThanOrEqual(2);
+  });
+
+  it('takes turns between hosts', async () => {
+    const { worker, started } = tracker();
+    const items = [...urls('a.test', 3), ...urls('b.test', 3)];
+
+    await runScheduled(items, settings({ concurrency: 1, adaptive: false }), createQueueControl(), hostOf, worker);
+
+    expect(started.map(hostOf)).toEqual(['a.test', 'b.test', 'a.test', 'b.test', 'a.test', 'b.test']);
+  });
+
+  it('applies host limits over the default', async () => {
+    const { worker, peaks } = tracker();
+    const items = [...urls('slow.test', 6), ...urls('fast.test', 6)];
+    const limits = settings({ concurrency: 10, perHostConcurrency: 4, adaptive: false, hostLimits: [{ host: 'slow.test', concurrency: 1, requestsPerSecond: 0 }] });
+
+    await runScheduled(items, limits, createQueueControl(), hostOf, worker);
+
+    expect(Math.max(...peaks.filter(p => p.host === 'slow.test').map(p => p.active))).toBe(1);
+    expect(Math.max(...peaks.filter(p => p.host === 'fast.test').map(p => p.active))).toBe(4);
+  });
+
+  it('backs a host off on 429 and lets it recover after successes', async () => {
+    const items = urls('a.test', 40);
+    const { worker, peaks } = tracker((item, throttle) => {
+      // Retry-After of 0 keeps the test from waiting out the backoff pause
+      throttle.report(items.indexOf(item) < 8 ? { status: 429, retryAfterMs: 0 } : { status: 200 });
+    });
+
+    await runScheduled(items, settings({ concurrency: 8, perHostConcurrency: 8 }), createQueueControl(), hostOf, worker);
+
+    // Eight 429s take the limit from 8 down to 1, then each run of successes adds one back
+    expect(Math.max(...peaks.slice(0, 8).map(p => p.active))).toBe(8);
+    expect(peaks[8].active).toBe(1);
+    expect(Math.max(...peaks.slice(-8).map(p => p.active))).toBeGreaterThan(2);
+  });
+
+  it('ignores requests that got no response', async () => {
+    const { worker, peaks } = tracker((_, throttle) => throttle.report({}));
+
+    await runScheduled(urls('a.test', 12), settings({ concurrency: 4, perHostConcurrency: 4 }), createQueueControl(), hostOf, worker);
+
+    expect(Math.max(...peaks.slice(-4).map(p => p.active))).toBe(4);
+  });
+
+  it('returns the items that never started when cancelled', async () => {
+    const control = createQueueControl();
+    const { worker, started } = tracker();
+    const items = urls('a.test', 5);
+
+    const left = await runScheduled(items, settings({ concurrency: 1 }), control, hostOf, async (item, signal, throttle) => {
+      await worker(item, signal, throttle);
+      if (started.length === 2) control.cancel();
+    });
+
+    expect(started).toEqual(items.slice(0, 2));
+    expect(left).toEqual(items.slice(2));
+  });
+
+  it('starts nothing new while paused', async () => {
+    const control = createQueueControl();
+    const { worker, started } = tracker();
+    control.pause();
+
+    const run = runScheduled(urls('a.test', 3), settings({ concurrency: 1 }), control, hostOf, worker);
+    await tick();
+    await tick();
+    expect(started).toEqual([]);
+
+    control.resume();
+    expect(await run).toEqual([]);
+    expect(started).toHaveLength(3);
+  });
+
+  it('stops and rethrows when a worker throws', async () => {
+    const failing = runScheduled(urls('a.test', 4), settings({ concurrency: 1 }), createQueueControl(), hostOf, async item => {
+      if (item.endsWith('/1.jpg')) throw new Error('boom');
+    });
+
+    await expect(failing).rejects.toThrow('boom');
+  });
+});
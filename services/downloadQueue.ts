@@ -0,0 +1,279 @@
+import { HostLimit, SchedulerSettings } from '../types';
+import { sleep } from '../utils';
+
+const SCHEDULER_KEY = 'cvent-batcher:scheduler';
+
+export const DEFAULT_SCHEDULER: SchedulerSettings = {
+  concurrency: 10,
+  perHostConcurrency: 10,
+  requestsPerSecond: 0,
+  hostLimits: [],
+  adaptive: true
+};
+
+// Answers that mean "slow down": rate limiting and overloaded servers.
+const BACKOFF_STATUSES = new Set([429, 500, 502, 503, 504]);
+const MIN_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+
+/**
+ * Handle for steering a running queue from the UI.
+ */
+export interface QueueControl {
+  readonly paused: boolean;
+  readonly cancelled: boolean;
+  /** Aborted on cancel; pass to fetch so in-flight requests stop too */
+  readonly signal: AbortSignal;
+  pause(): void;
+  resume(): void;
+  cancel(): void;
+}
+
+interface InternalControl extends QueueControl {
+  /** Resolves once the queue is running again or has been cancelled */
+  waitUntilRunnable(): Promise<void>;
+}
+
+export function createQueueControl(): QueueControl {
+  const abort = new AbortController();
+  let paused = false;
+  let waiters: (() => void)[] = [];
+
+  const wake = () => {
+    waiters.forEach(resolve => resolve());
+    waiters = [];
+  };
+
+  const control: InternalControl = {
+    get paused() { return paused; },
+    get cancelled() { return abort.signal.aborted; },
+    signal: abort.signal,
+    pause() { paused = true; },
+    resume() {
+      paused = false;
+      wake();
+    },
+    cancel() {
+      abort.abort();
+      wake();
+    },
+    waitUntilRunnable() {
+      if (!paused || abort.signal.aborted) return Promise.resolve();
+      return new Promise(resolve => waiters.push(resolve));
+    }
+  };
+  return control;
+}
+
+/**
+ * What a host answered; `status` is missing when the request never got a response.
+ */
+export interface RequestOutcome {
+  status?: number;
+  retryAfterMs?: number;
+}
+
+/**
+ * Per-host gate for individual requests, retries included. Handed to each
+ * worker by runScheduled.
+ */
+export interface HostThrottle {
+  /** Waits for the host's rate limit and any backoff pause */
+  acquire(signal?: AbortSignal): Promise<void>;
+  /** Feeds a response back so the host can be slowed down or sped up */
+  report(outcome: RequestOutcome): void;
+}
+
+interface HostState {
+  /** Configured cap */
+  cap: number;
+  /** Current cap, lowered by adaptive backoff */
+  limit: number;
+  active: number;
+  /** Minimum gap between requests, 0 for no rate limit */
+  intervalMs: number;
+  nextRequestAt: number;
+  pausedUntil: number;
+  backoffMs: number;
+  successes: number;
+}
+
+/**
+ * Whether `hostname` matches a host limit pattern, e.g. `img.example.com`
+ * or `*.example.com`.
+ */
+export function hostMatches(hostname: string, pattern: string): boolean {
+  const host = hostname.toLowerCase();
+  const p = pattern.trim().toLowerCase();
+  return p.startsWith('*.') ? host.endsWith(p.slice(1)) : host === p;
+}
+
+export function hostOf(url: string): string {
+  try {
+    return new URL(url.trim()).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+const limitFor = (host: string, settings: SchedulerSettings): Omit<HostLimit, 'host'> =>
+  settings.hostLimits.find(l => l.host.trim() && hostMatches(host, l.host))
+    ?? { concurrency: settings.perHostConcurrency, requestsPerSecond: settings.requestsPerSecond };
+
+const createHostState = (host: string, settings: SchedulerSettings): HostState => {
+  const limit = limitFor(host, settings);
+  const cap = Math.max(1, limit.concurrency);
+  return {
+    cap,
+    limit: cap,
+    active: 0,
+    intervalMs: limit.requestsPerSecond > 0 ? 1000 / limit.requestsPerSecond : 0,
+    nextRequestAt: 0,
+    pausedUntil: 0,
+    backoffMs: 0,
+    successes: 0
+  };
+};
+
+/**
+ * Halves a host's concurrency and pauses it when it signals overload; after
+ * a run of successes as long as the current limit, allows one more again.
+ * Requests that got no answer at all are ignored, since CORS refusals look
+ * the same and would never recover.
+ */
+const adapt = (state: HostState, outcome: RequestOutcome) => {
+  if (outcome.status === undefined) return;
+  if (BACKOFF_STATUSES.has(outcome.status)) {
+    state.limit = Math.max(1, Math.floor(state.limit / 2));
+    state.backoffMs = Math.min(Math.max(state.backoffMs * 2, MIN_BACKOFF_MS), MAX_BACKOFF_MS);
+    state.pausedUntil = Math.max(state.pausedUntil, Date.now() + (outcome.retryAfterMs ?? state.backoffMs));
+    state.successes = 0;
+  } else if (outcome.status < 400) {
+    state.backoffMs = 0;
+    if (++state.successes >= state.limit && state.limit < state.cap) {
+      state.limit++;
+      state.successes = 0;
+    }
+  }
+};
+
+const createThrottle = (state: HostState, adaptive: boolean): HostThrottle => ({
+  async acquire(signal) {
+    const now = Date.now();
+    const start = Math.max(now, state.nextRequestAt, state.pausedUntil);
+    state.nextRequestAt = start + state.intervalMs;
+    if (start > now) await sleep(start - now, signal);
+  },
+  report(outcome) {
+    if (adaptive) adapt(state, outcome);
+  }
+});
+
+/**
+ * Runs `worker` over the items within the global and per-host concurrency
+ * limits, taking turns between hosts so one slow CDN doesn't hold up the
+ * rest. Pausing stops new items from starting; cancelling stops them for
+ * good and aborts the signal handed to in-flight workers. Resolves with the
+ * items that never started.
+ */
+export async function runScheduled<T>(
+  items: T[],
+  settings: SchedulerSettings,
+  control: QueueControl,
+  hostOfItem: (item: T) => string,
+  worker: (item: T, signal: AbortSignal, throttle: HostThrottle) => Promise<void>
+): Promise<T[]> {
+  const internal = control as InternalControl;
+  const hosts = new Map<string, HostState>();
+  const throttles = new Map<string, HostThrottle>();
+  // Waiting items per host, in their original order
+  const queues = new Map<string, T[]>();
+  items.forEach(item => {
+    const host = hostOfItem(item);
+    if (!hosts.has(host)) {
+      const state = createHostState(host, settings);
+      hosts.set(host, state);
+      throttles.set(host, createThrottle(state, settings.adaptive));
+      queues.set(host, []);
+    }
+    queues.get(host)!.push(item);
+  });
+
+  const running = new Set<Promise<void>>();
+  let failure: unknown;
+  let wake = () => {};
+  let turn = 0;
+  control.signal.addEventListener('abort', () => wake(), { once: true });
+
+  const pickNext = (): [string, T] | null => {
+    const names = Array.from(queues.keys());
+    const now = Date.now();
+    for (let i = 0; i < names.length; i++) {
+      const host = names[(turn + i) % names.length];
+      const state = hosts.get(host)!;
+      if (state.active >= state.limit || state.pausedUntil > now) continue;
+      turn = (turn + i + 1) % names.length;
+      const queue = queues.get(host)!;
+      const item = queue.shift()!;
+      if (queue.length === 0) queues.delete(host);
+      return [host, item];
+    }
+    return null;
+  };
+
+  while (queues.size > 0 && !control.cancelled) {
+    await internal.waitUntilRunnable();
+    if (control.cancelled) break;
+
+    const next = running.size < Math.max(1, settings.concurrency) ? pickNext() : null;
+    if (next) {
+      const [host, item] = next;
+      const state = hosts.get(host)!;
+      state.active++;
+      const job: Promise<void> = worker(item, control.signal, throttles.get(host)!)
+        .catch(err => {
+          failure ??= err;
+          control.cancel();
+        })
+        .finally(() => {
+          state.active--;
+          running.delete(job);
+          wake();
+        });
+      running.add(job);
+      continue;
+    }
+
+    // Sleep until a worker finishes or a paused host may start again
+    const now = Date.now();
+    const resumeAt = Math.min(...Array.from(queues.keys(), host => hosts.get(host)!.pausedUntil).filter(t => t > now));
+    await new Promise<void>(resolve => {
+      const timer = isFinite(resumeAt) ? setTimeout(resolve, resumeAt - now) : undefined;
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  await Promise.all(running);
+  if (failure) throw failure;
+  return Array.from(queues.values()).flat();
+}
+
+export function loadSchedulerSettings(): SchedulerSettings {
+  try {
+    const raw = localStorage.getItem(SCHEDULER_KEY);
+    return raw ? { ...DEFAULT_SCHEDULER, ...JSON.parse(raw) } : DEFAULT_SCHEDULER;
+  } catch {
+    return DEFAULT_SCHEDULER;
+  }
+}
+
+export function saveSchedulerSettings(settings: SchedulerSettings): void {
+  try {
+    localStorage.setItem(SCHEDULER_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Could not save download limits", err);
+  }
+}
@@ -0,0 +1,318 @@
+import { DownloadErrorKind, FetchMode, ImageFormat, ImageTask, ResponsePolicy, RetryPolicy } from '../types';
+import { formatBytes, sha256Hex, sleep } from '../utils';
+import { HostThrottle } from './downloadQueue';
+import { PROXY_ERROR_HEADER, proxiedUrl } from './proxy';
+import { detectImageDimensions, detectImageFormat, FORMAT_EXTENSIONS, FORMAT_MIME_TYPES, formatFromContentType, sniffImageFormat, withExtension } from './imageFormat';
+
+const RETRY_POLICY_KEY = 'cvent-batcher:retry-policy';
+const RESPONSE_POLICY_KEY = 'cvent-batcher:response-policy';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+export const DEFAULT_RESPONSE_POLICY: ResponsePolicy = {
+  timeoutMs: 30000,
+  maxBytes: 25 * 1024 * 1024,
+  minBytes: 100,
+  strictContentType: true,
+  requireImageSignature: true,
+  verifyDecode: true
+};
+
+// Statuses worth another try: timeouts, rate limiting and server-side errors.
+const TRANSIENT_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+// Generic types some hosts use for every file they serve.
+const BINARY_CONTENT_TYPES = new Set(['application/octet-stream', 'binary/octet-stream', 'application/binary']);
+
+// Formats every current browser decodes; the rest are passed through unchecked.
+const DECODABLE_FORMATS = new Set<ImageFormat>(['jpeg', 'png', 'gif', 'webp', 'bmp', 'avif']);
+
+export const ERROR_KIND_LABELS: Record<DownloadErrorKind, string> = {
+  network: 'Network / CORS',
+  timeout: 'Timed out',
+  http: 'HTTP error',
+  proxy: 'Proxy refused',
+  'too-large': 'Too large',
+  'too-small': 'Too small',
+  'content-type': 'Wrong content type',
+  'not-image': 'Not an image',
+  undecodable: 'Undecodable'
+};
+
+export interface DownloadOptions {
+  fetchMode?: FetchMode;
+  /** Rate limit and backoff of the image's host, from runScheduled */
+  throttle?: HostThrottle;
+  responsePolicy?: ResponsePolicy;
+}
+
+class DownloadError extends Error {
+  constructor(readonly kind: DownloadErrorKind, message: string, readonly status?: number, readonly transient = false, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'DownloadError';
+  }
+}
+
+/**
+ * Reads a Retry-After header, given either as seconds or as an HTTP date.
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before retry number `retry` (1-based): exponential with jitter, or
+ * the server's Retry-After when it sent one. Both are capped at maxDelayMs.
+ */
+export function retryDelay(retry: number, policy: RetryPolicy, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, policy.maxDelayMs);
+  const exponential = policy.baseDelayMs * Math.pow(2, retry - 1);
+  const jitter = Math.random() * policy.baseDelayMs * 0.5;
+  return Math.min(exponential + jitter, policy.maxDelayMs);
+}
+
+const timedOut = (policy: ResponsePolicy) =>
+  new DownloadError('timeout', `Timeout: no complete response within ${policy.timeoutMs / 1000} s`, undefined, true);
+
+// `declared` is the Content-Length, when the server sent one
+const tooLarge = (policy: ResponsePolicy, status: number, declared?: number) =>
+  new DownloadError('too-large', declared ? `Too large: ${formatBytes(declared)}, the limit is ${formatBytes(policy.maxBytes)}` : `Too large: over the ${formatBytes(policy.maxBytes)} limit`, status);
+
+/**
+ * Reads the body, giving up as soon as it passes maxBytes rather than
+ * buffering a huge file first.
+ */
+const readBody = async (response: Response, policy: ResponsePolicy): Promise<Blob> => {
+  const declared = Number(response.headers.get('Content-Length'));
+  if (policy.maxBytes > 0 && declared > policy.maxBytes) throw tooLarge(policy, response.status, declared);
+  if (!response.body || policy.maxBytes <= 0) return response.blob();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > policy.maxBytes) {
+      reader.cancel().catch(() => undefined);
+      throw tooLarge(policy, response.status);
+    }
+    chunks.push(value as Uint8Array<ArrayBuffer>);
+  }
+  return new Blob(chunks, { type: response.headers.get('Content-Type') || '' });
+};
+
+/**
+ * One attempt: request and body share the timeout, so a server that stalls
+ * halfway through a file is caught too.
+ */
+const fetchOnce = async (url: string, options: DownloadOptions, policy: ResponsePolicy, signal?: AbortSignal): Promise<{ response: Response; blob: Blob }> => {
+  const { fetchMode = 'direct', throttle } = options;
+  await throttle?.acquire(signal);
+
+  const timeout = policy.timeoutMs > 0 ? AbortSignal.timeout(policy.timeoutMs) : undefined;
+  const attemptSignal = timeout && signal ? AbortSignal.any([signal, timeout]) : timeout ?? signal;
+
+  let response: Response;
+  try {
+    response = await fetch(fetchMode === 'proxy' ? proxiedUrl(url) : url, { mode: 'cors', signal: attemptSignal });
+  } catch (error: any) {
+    if (signal?.aborted) throw error;
+    if (timeout?.aborted) throw timedOut(policy);
+    throttle?.report({});
+    // fetch only rejects on network failures, which includes CORS refusals
+    throw new DownloadError('network', error.message.includes('Failed to fetch') ? 'CORS/Network Error' : error.message, undefined, true);
+  }
+  const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+  throttle?.report({ status: response.status, retryAfterMs });
+  if (!response.ok) {
+    const proxyError = fetchMode === 'proxy' ? response.headers.get(PROXY_ERROR_HEADER) : null;
+    throw new DownloadError(
+      proxyError ? 'proxy' : 'http',
+      proxyError ? `Proxy: ${proxyError}` : `HTTP ${response.status}`,
+      response.status,
+      TRANSIENT_STATUSES.has(response.status),
+      retryAfterMs
+    );
+  }
+
+  try {
+    return { response, blob: await readBody(response, policy) };
+  } catch (error: any) {
+    if (signal?.aborted || error instanceof DownloadError) throw error;
+    if (timeout?.aborted) throw timedOut(policy);
+    throw new DownloadError('network', `Connection lost while downloading: ${error.message}`, response.status, true);
+  }
+};
+
+const looksLikeMarkup = (head: Uint8Array) =>
+  /^\s*</.test(new TextDecoder().decode(head.subarray(0, 64)));
+
+/**
+ * Checks that a response really is a usable photo. Returns the detected
+ * format, or null when the checks that need one are switched off.
+ */
+const verifyImage = async (blob: Blob, contentType: string, status: number, policy: ResponsePolicy): Promise<ImageFormat | null> => {
+  if (blob.size < policy.minBytes) {
+    throw new DownloadError('too-small', `Too small: ${formatBytes(blob.size)}, expected at least ${formatBytes(policy.minBytes)}`, status);
+  }
+
+  const mime = contentType.split(';')[0].trim().toLowerCase();
+  if (policy.strictContentType && mime && !mime.startsWith('image/') && !BINARY_CONTENT_TYPES.has(mime)) {
+    throw new DownloadError('content-type', `Wrong content type: the server sent ${mime}`, status);
+  }
+
+  const head = new Uint8Array(await blob.slice(0, 256).arrayBuffer());
+  const sniffed = sniffImageFormat(head);
+  if (policy.requireImageSignature && !sniffed) {
+    throw new DownloadError('not-image', looksLikeMarkup(head) ? 'Not an image: received a web page' : 'Not an image: unrecognized file signature', status);
+  }
+  // The file signature wins over the Content-Type header, which image hosts frequently get wrong
+  const format = sniffed || formatFromContentType(contentType);
+
+  // Not available outside the browser, e.g. in the CLI
+  if (policy.verifyDecode && format && DECODABLE_FORMATS.has(format) && typeof createImageBitmap === 'function') {
+    try {
+      (await createImageBitmap(blob)).close();
+    } catch {
+      throw new DownloadError('undecodable', `Undecodable: the ${format.toUpperCase()} data is damaged or truncated`, status);
+    }
+  }
+  return format;
+};
+
+/**
+ * Fetches one attendee photo and names it after the format actually
+ * received rather than assuming JPEG. Transient failures, timeouts included,
+ * are retried according to the policy; responses that fail the response
+ * policy are not. When `signal` aborts, the task comes back unchanged as
+ * 'pending' so it can be run again later. In 'proxy' mode the request goes
+ * through the dev server's image proxy instead.
+ */
+export async function downloadImage(
+  task: ImageTask,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  signal?: AbortSignal,
+  options: DownloadOptions = {}
+): Promise<ImageTask> {
+  const responsePolicy = options.responsePolicy ?? DEFAULT_RESPONSE_POLICY;
+  let attempts = 0;
+  const startedAt = Date.now();
+
+  try {
+    let received: { response: Response; blob: Blob } | undefined;
+    while (!received) {
+      attempts++;
+      try {
+        received = await fetchOnce(task.url, options, responsePolicy, signal);
+      } catch (error) {
+        if (!(error instanceof DownloadError) || !error.transient || attempts >= policy.maxAttempts) throw error;
+        await sleep(retryDelay(attempts, policy, error.retryAfterMs), signal);
+      }
+    }
+
+    const { response, blob: body } = received;
+    const contentType = response.headers.get('Content-Type') || body.type;
+    const format = await verifyImage(body, contentType, response.status, responsePolicy);
+    const sha256 = await sha256Hex(body);
+    const base = {
+      ...task, status: 'completed' as const, error: undefined, errorKind: undefined, httpStatus: response.status, attempts,
+      contentType, sha256, bytes: body.size, durationMs: Date.now() - startedAt
+    };
+    if (!format) {
+      return { ...base, blob: body };
+    }
+    const dimensions = await detectImageDimensions(body, format);
+
+    // Re-type the blob so the stored MIME matches the bytes
+    const blob = body.type === FORMAT_MIME_TYPES[format]
+      ? body
+      : body.slice(0, body.size, FORMAT_MIME_TYPES[format]);
+
+    return { ...base, ...dimensions, blob, format, filename: withExtension(task.filename, FORMAT_EXTENSIONS[format]) };
+  } catch (error: any) {
+    if (signal?.aborted) return { ...task, status: 'pending' };
+    const known = error instanceof DownloadError;
+    return {
+      ...task, status: 'failed', error: error.message, errorKind: known ? error.kind : undefined, httpStatus: known ? error.status : undefined,
+      attempts, durationMs: Date.now() - startedAt
+    };
+  }
+}
+
+// Everything downloadImage (and the baseline check after it) sets on a task
+const DOWNLOAD_FIELDS = [
+  'status', 'error', 'errorKind', 'httpStatus', 'attempts', 'blob', 'bytes', 'width', 'height',
+  'durationMs', 'sha256', 'format', 'contentType', 'unchangedSince'
+] as const satisfies readonly (keyof ImageTask)[];
+
+/**
+ * Applies a finished download to the task as it is now. The result was built
+ * from the task when the download started, so only the download's own fields
+ * are taken; selection, renames and exclusions made meanwhile are kept.
+ */
+export function mergeDownloadResult(current: ImageTask, result: ImageTask): ImageTask {
+  const fields = Object.fromEntries(DOWNLOAD_FIELDS.map(key => [key, result[key]])) as Pick<ImageTask, typeof DOWNLOAD_FIELDS[number]>;
+  return {
+    ...current,
+    ...fields,
+    filename: result.format ? withExtension(current.filename, FORMAT_EXTENSIONS[result.format]) : current.filename
+  };
+}
+
+/**
+ * Uses a local file in place of a task's downloaded image, renaming the
+ * output after the file's format the same way downloads are.
+ */
+export async function replaceImage(task: ImageTask, file: File): Promise<ImageTask> {
+  const format = await detectImageFormat(file, file.type);
+  if (!format) throw new Error(`${file.name} is not a supported image`);
+
+  const blob = file.slice(0, file.size, FORMAT_MIME_TYPES[format]);
+  const dimensions = await detectImageDimensions(blob, format);
+  return {
+    ...task, status: 'completed', error: undefined, excluded: false, replacement: file.name, blob, format, phash: undefined, quality: undefined,
+    contentType: FORMAT_MIME_TYPES[format], bytes: file.size, sha256: await sha256Hex(blob),
+    width: dimensions?.width, height: dimensions?.height,
+    filename: withExtension(task.filename, FORMAT_EXTENSIONS[format])
+  };
+}
+
+export function loadRetryPolicy(): RetryPolicy {
+  try {
+    const raw = localStorage.getItem(RETRY_POLICY_KEY);
+    return raw ? { ...DEFAULT_RETRY_POLICY, ...JSON.parse(raw) } : DEFAULT_RETRY_POLICY;
+  } catch {
+    return DEFAULT_RETRY_POLICY;
+  }
+}
+
+export function saveRetryPolicy(policy: RetryPolicy): void {
+  try {
+    localStorage.setItem(RETRY_POLICY_KEY, JSON.stringify(policy));
+  } catch (err) {
+    console.warn("Could not save retry policy", err);
+  }
+}
+
+export function loadResponsePolicy(): ResponsePolicy {
+  try {
+    const raw = localStorage.getItem(RESPONSE_POLICY_KEY);
+    return raw ? { ...DEFAULT_RESPONSE_POLICY, ...JSON.parse(raw) } : DEFAULT_RESPONSE_POLICY;
+  } catch {
+    return DEFAULT_RESPONSE_POLICY;
+  }
+}
+
+export function saveResponsePolicy(policy: ResponsePolicy): void {
+  try {
+    localStorage.setItem(RESPONSE_POLICY_KEY, JSON.stringify(policy));
+  } catch (err) {
+    console.warn("Could not save response checks", err);
+  }
+}
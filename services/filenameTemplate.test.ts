@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { FilenameTemplate, ImageTask } from '../types';
+import { applyFilenameTemplate, DEFAULT_TEMPLATE, parseTemplate, renderTemplate, toAscii, validateTemplate } from './filenameTemplate';
+import { makeTask } from './testUtils';
+
+const task = (overrides: Partial<ImageTask> = {}): ImageTask => makeTask('t1', {
+  sheet: 'Speakers',
+  source: 'event.xlsx',
+  rowIndex: 4,
+  fields: { 'Reg ID': 'A-17', Company: 'Acme' },
+  ...overrides
+});
+
+const template = (pattern: string, overrides: Partial<FilenameTemplate> = {}): FilenameTemplate => ({ ...DEFAULT_TEMPLATE, pattern, ...overrides });
+
+describe('parseTemplate', () => {
+  it('splits text, tokens, modifiers and column tokens', () => {
+    expect(parseTemplate('{last|upper}_{col:Reg ID}').parts).toEqual([
+      { kind: 'token', name: 'last', modifiers: ['upper'] },
+      { kind: 'text', value: '_' },
+      { kind: 'token', name: 'col', column: 'Reg ID', modifiers: [] }
+    ]);
+  });
+
+  it('reports unbalanced braces', () => {
+    expect(parseTemplate('{first').errors).toEqual(["Unclosed '{' at position 1"]);
+    expect(parseTemplate('first}').errors).toEqual(["Unmatched '}' at position 6"]);
+  });
+});
+
+describe('validateTemplate', () => {
+  it('accepts built-in tokens and known columns', () => {
+    expect(validateTemplate(template('{sheet}/{name}_{col:Reg ID}'), ['Reg ID'])).toEqual([]);
+  });
+
+  it('flags unknown tokens, columns and modifiers', () => {
+    expect(validateTemplate(template('{nickname}_{col:Badge}_{first|shout}'), ['Reg ID'])).toEqual([
+      'Unknown token {nickname}',
+      'Unknown column "Badge"',
+      'Unknown modifier "shout"'
+    ]);
+  });
+
+  it('rejects templates that give every file the same name or an invalid path', () => {
+    expect(validateTemplate(template('photo'), [])).toContain('Template has no tokens, every file would get the same name');
+    expect(validateTemplate(template('a:{name}'), [])).toContain('Illegal character ":" in "a:"');
+    expect(validateTemplate(template('/{name}'), [])).toContain("Folder separators '/' cannot be doubled or at the start or end");
+    expect(validateTemplate(template('../{name}'), [])).toContain("'.' and '..' are not allowed as folder names");
+  });
+
+  it('allows a fixed folder name when no token is required', () => {
+    expect(validateTemplate(template('Photos'), [], { requireToken: false })).toEqual([]);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('renders the default Last.First name', () => {
+    expect(renderTemplate(DEFAULT_TEMPLATE, task())).toBe('Doe.Jane');
+  });
+
+  it('fills columns, modifiers and folders', () => {
+    expect(renderTemplate(template('{sheet|lower}/{first|initial}{last}_{col:reg id}'), task())).toBe('speakers/JDoe_A-17');
+  });
+
+  it('keeps data from creating folders or illegal names', () => {
+    const rendered = renderTemplate(template('{col:Company}/{full}'), task({ fullName: 'Jane/Doe?', fields: { Company: 'CON' } }));
+    expect(rendered).toBe('_CON/Jane Doe');
+  });
+
+  it('applies case, ASCII and whitespace options', () => {
+    const options = { case: 'lower', asciiOnly: true, whitespace: 'underscore' } as const;
+    expect(renderTemplate(template('{full}', options), task({ fullName: 'Zoë  Ångström' }))).toBe('zoe_angstrom');
+  });
+
+  it('falls back to Unknown for empty segments', () => {
+    expect(renderTemplate(template('{col:Missing}'), task())).toBe('Unknown');
+  });
+});
+
+describe('toAscii', () => {
+  it('transliterates letters that have no decomposition', () => {
+    expect(toAscii('Straße Øre Łódź')).toBe('Strasse Ore Lodz');
+  });
+});
+
+describe('applyFilenameTemplate', () => {
+  it('keeps the current extension and unchanged tasks', () => {
+    const png = task({ filename: 'old.png' });
+    const same = task({ id: 't2' });
+    const [renamed, untouched] = applyFilenameTemplate([png, same], DEFAULT_TEMPLATE);
+    expect(renamed.filename).toBe('Doe.Jane.png');
+    expect(untouched).toBe(same);
+  });
+});
@@ -0,0 +1,236 @@
+import { FilenameTemplate, ImageTask } from '../types';
+import { normalizeName, normalizeNameParts, splitExtension, splitName } from '../utils';
+
+const STORAGE_KEY = 'cvent-batcher:filename-template';
+
+export const DEFAULT_TEMPLATE: FilenameTemplate = {
+  pattern: '{name}',
+  case: 'preserve',
+  asciiOnly: false,
+  whitespace: 'keep'
+};
+
+export const BUILTIN_TOKENS: { token: string; description: string }[] = [
+  { token: 'name', description: "Last.First, as the Python script named files" },
+  { token: 'first', description: 'First name' },
+  { token: 'last', description: 'Last name' },
+  { token: 'full', description: 'Full name as written in the sheet' },
+  { token: 'sheet', description: 'Sheet name' },
+  { token: 'file', description: 'Uploaded file name, without extension' },
+  { token: 'date', description: 'Registration date (YYYY-MM-DD)' },
+  { token: 'row', description: 'Row number in the sheet' }
+];
+
+export const MODIFIERS = ['lower', 'upper', 'title', 'ascii', 'alnum', 'initial'] as const;
+type Modifier = typeof MODIFIERS[number];
+
+type TemplatePart =
+  | { kind: 'text'; value: string }
+  | { kind: 'token'; name: string; column?: string; modifiers: string[] };
+
+// Characters Windows, macOS or common unzip tools refuse in a path segment.
+// '/' is excluded because the template uses it to create folders.
+const ILLEGAL_CHARS = /[<>:"\\|?*\u0000-\u001f]/g;
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i;
+
+// Letters NFKD decomposition leaves untouched.
+const TRANSLITERATIONS: Record<string, string> = {
+  'ß': 'ss', 'æ': 'ae', 'Æ': 'AE', 'ø': 'o', 'Ø': 'O', 'œ': 'oe', 'Œ': 'OE',
+  'đ': 'd', 'Đ': 'D', 'ł': 'l', 'Ł': 'L', 'þ': 'th', 'Þ': 'Th', 'ð': 'd', 'Ð': 'D'
+};
+
+const headerKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Replaces accented and special Latin letters with plain ASCII and drops
+ * whatever cannot be represented.
+ */
+export function toAscii(value: string): string {
+  return value
+    .replace(/[ßæÆøØœŒđĐłŁþÞðÐ]/g, ch => TRANSLITERATIONS[ch])
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '');
+}
+
+const applyModifier = (value: string, modifier: Modifier): string => {
+  switch (modifier) {
+    case 'lower': return value.toLowerCase();
+    case 'upper': return value.toUpperCase();
+    case 'title': return value.toLowerCase().replace(/(^|[\s\-'])(\p{L})/gu, (_, sep, ch) => sep + ch.toUpperCase());
+    case 'ascii': return toAscii(value);
+    case 'alnum': return value.replace(/\W+/g, '');
+    case 'initial': return value.charAt(0);
+  }
+};
+
+/**
+ * Splits a pattern into literal text and `{token|modifier}` placeholders.
+ * Column placeholders are written `{col:Header Name}`.
+ */
+export function parseTemplate(pattern: string): { parts: TemplatePart[]; errors: string[] } {
+  const parts: TemplatePart[] = [];
+  const errors: string[] = [];
+  let cursor = 0;
+
+  while (cursor < pattern.length) {
+    const open = pattern.indexOf('{', cursor);
+    const close = pattern.indexOf('}', cursor);
+
+    if (close !== -1 && (open === -1 || close < open)) {
+      errors.push(`Unmatched '}' at position ${close + 1}`);
+      cursor = close + 1;
+      continue;
+    }
+    if (open === -1) {
+      parts.push({ kind: 'text', value: pattern.slice(cursor) });
+      break;
+    }
+    if (open > cursor) parts.push({ kind: 'text', value: pattern.slice(cursor, open) });
+
+    const end = pattern.indexOf('}', open);
+    const nested = pattern.indexOf('{', open + 1);
+    if (end === -1 || (nested !== -1 && nested < end)) {
+      errors.push(`Unclosed '{' at position ${open + 1}`);
+      cursor = end === -1 ? pattern.length : nested;
+      continue;
+    }
+
+    const [rawName, ...modifiers] = pattern.slice(open + 1, end).split('|').map(p => p.trim());
+    if (rawName.toLowerCase().startsWith('col:')) {
+      parts.push({ kind: 'token', name: 'col', column: rawName.slice(4).trim(), modifiers });
+    } else {
+      parts.push({ kind: 'token', name: rawName, modifiers });
+    }
+    cursor = end + 1;
+  }
+
+  return { parts, errors };
+}
+
+const findColumn = (name: string, columns: string[]) =>
+  columns.find(c => c === name) ?? columns.find(c => headerKey(c) === headerKey(name));
+
+/**
+ * Lists everything wrong with a template: syntax, unknown tokens or
+ * modifiers, and literal text that would produce an invalid path. Folder
+ * templates pass requireToken: false since a fixed folder name is fine.
+ */
+export function validateTemplate(template: FilenameTemplate, columns: string[], { requireToken = true } = {}): string[] {
+  const { parts, errors } = parseTemplate(template.pattern);
+  const builtins = BUILTIN_TOKENS.map(t => t.token);
+
+  if (!template.pattern.trim()) errors.push('Template is empty');
+  if (requireToken && !parts.some(p => p.kind === 'token')) errors.push('Template has no tokens, every file would get the same name');
+
+  parts.forEach(part => {
+    if (part.kind === 'text') {
+      const illegal = part.value.match(ILLEGAL_CHARS);
+      if (illegal) errors.push(`Illegal character${illegal.length > 1 ? 's' : ''} ${[...new Set(illegal)].map(c => JSON.stringify(c)).join(' ')} in "${part.value}"`);
+      return;
+    }
+    if (part.name === 'col') {
+      if (!part.column) errors.push('{col:} needs a column name');
+      else if (!findColumn(part.column, columns)) errors.push(`Unknown column "${part.column}"`);
+    } else if (!builtins.includes(part.name.toLowerCase()) && !findColumn(part.name, columns)) {
+      errors.push(`Unknown token {${part.name}}`);
+    }
+    part.modifiers
+      .filter(m => !(MODIFIERS as readonly string[]).includes(m.toLowerCase()))
+      .forEach(m => errors.push(`Unknown modifier "${m}"`));
+  });
+
+  const segments = template.pattern.split('/');
+  if (segments.some(s => !s.trim())) errors.push("Folder separators '/' cannot be doubled or at the start or end");
+  if (segments.some(s => s.trim() === '.' || s.trim() === '..')) errors.push("'.' and '..' are not allowed as folder names");
+
+  return errors;
+}
+
+const resolveToken = (part: Extract<TemplatePart, { kind: 'token' }>, task: ImageTask): string => {
+  const split = splitName(task.fullName);
+  const first = task.firstName ?? split.first;
+  const last = task.lastName ?? split.last;
+  const columns = Object.keys(task.fields);
+
+  switch (part.name === 'col' ? 'col' : part.name.toLowerCase()) {
+    case 'name':
+      return task.firstName !== undefined || task.lastName !== undefined
+        ? normalizeNameParts(first, last)
+        : normalizeName(task.fullName);
+    case 'first': return first;
+    case 'last': return last;
+    case 'full': return task.fullName;
+    case 'sheet': return task.sheet;
+    case 'file': return (task.source ?? '').replace(/\.[^.]+$/, '');
+    case 'date': return task.registrationDate ? task.registrationDate.toISOString().split('T')[0] : '';
+    case 'row': return String(task.rowIndex + 1);
+    default: {
+      const column = findColumn(part.column ?? part.name, columns);
+      return column ? task.fields[column] : '';
+    }
+  }
+};
+
+const cleanSegment = (segment: string, template: FilenameTemplate): string => {
+  let value = segment.replace(/\s+/g, ' ').trim();
+  if (template.asciiOnly) value = toAscii(value);
+  if (template.case === 'lower') value = value.toLowerCase();
+  if (template.case === 'upper') value = value.toUpperCase();
+  if (template.whitespace === 'underscore') value = value.replace(/ /g, '_');
+  if (template.whitespace === 'dash') value = value.replace(/ /g, '-');
+  if (template.whitespace === 'remove') value = value.replace(/ /g, '');
+  value = value.replace(/[. ]+$/, '');
+  if (!value) return 'Unknown';
+  return RESERVED_NAMES.test(value) ? `_${value}` : value;
+};
+
+/**
+ * Renders the output path (without extension) for a task. Token values are
+ * stripped of path separators and illegal characters so data can never
+ * create extra folders.
+ */
+export function renderTemplate(template: FilenameTemplate, task: ImageTask): string {
+  const { parts } = parseTemplate(template.pattern);
+
+  const raw = parts.map(part => {
+    if (part.kind === 'text') return part.value.replace(ILLEGAL_CHARS, '');
+    let value = resolveToken(part, task).replace(/[\\/]/g, ' ').replace(ILLEGAL_CHARS, '');
+    part.modifiers.forEach(m => {
+      const modifier = m.toLowerCase() as Modifier;
+      if ((MODIFIERS as readonly string[]).includes(modifier)) value = applyModifier(value, modifier);
+    });
+    return value;
+  }).join('');
+
+  return raw.split('/').map(segment => cleanSegment(segment, template)).join('/');
+}
+
+/**
+ * Re-derives every task's filename from the template, keeping the current
+ * extension.
+ */
+export function applyFilenameTemplate(tasks: ImageTask[], template: FilenameTemplate): ImageTask[] {
+  return tasks.map(task => {
+    const extension = splitExtension(task.filename)[1] || '.jpg';
+    const filename = `${renderTemplate(template, task)}${extension}`;
+    return filename === task.filename ? task : { ...task, filename };
+  });
+}
+
+export function loadFilenameTemplate(): FilenameTemplate {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_TEMPLATE, ...JSON.parse(raw) } : DEFAULT_TEMPLATE;
+  } catch {
+    return DEFAULT_TEMPLATE;
+  }
+}
+
+export function saveFilenameTemplate(template: FilenameTemplate): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(template));
+  } catch (err) {
+    console.warn("Could not save filename template", err);
+  }
+}
@@ -0,0 +1,113 @@
+import { FilenameTemplate, FolderLayout, ImageTask } from '../types';
+import { DEFAULT_TEMPLATE, renderTemplate, validateTemplate } from './filenameTemplate';
+
+const STORAGE_KEY = 'cvent-batcher:folder-layout';
+
+export const DEFAULT_FOLDER_LAYOUT: FolderLayout = { mode: 'sheet', dateGrouping: 'day', pattern: '{sheet}' };
+
+const ILLEGAL_CHARS = /[<>:"/\\|?*\u0000-\u001f]/g;
+
+const folderName = (value: string, fallback: string) =>
+  value.replace(ILLEGAL_CHARS, ' ').replace(/\s+/g, ' ').trim().replace(/[. ]+$/, '') || fallback;
+
+// Dates are bucketed in UTC, matching the {date} filename token.
+const dateFolder = (date: Date, grouping: FolderLayout['dateGrouping']): string => {
+  const iso = date.toISOString();
+  if (grouping === 'day') return iso.slice(0, 10);
+  if (grouping === 'month') return iso.slice(0, 7);
+
+  // ISO 8601 week: the week belongs to the year its Thursday falls in
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  d.setUTCDate(d.getUTCDate() + 4 - (d.getUTCDay() || 7));
+  const week = Math.ceil(((d.getTime() - Date.UTC(d.getUTCFullYear(), 0, 1)) / 86400000 + 1) / 7);
+  return `${d.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+};
+
+const templateFor = (pattern: string): FilenameTemplate => ({ ...DEFAULT_TEMPLATE, pattern });
+
+/**
+ * Folder a task is written to inside the ZIP; '' means the archive root.
+ */
+export function getFolder(task: ImageTask, layout: FolderLayout): string {
+  switch (layout.mode) {
+    case 'flat': return '';
+    case 'sheet': return folderName(task.sheet, 'Unknown');
+    case 'source': return folderName((task.source ?? '').replace(/\.[^.]+$/, ''), 'Unknown');
+    case 'date': return task.registrationDate ? dateFolder(task.registrationDate, layout.dateGrouping) : 'No date';
+    case 'column': return layout.column ? folderName(task.fields[layout.column] ?? '', 'Blank') : '';
+    case 'template': return renderTemplate(templateFor(layout.pattern), task);
+  }
+}
+
+export function validateFolderLayout(layout: FolderLayout, columns: string[]): string[] {
+  if (layout.mode === 'column') {
+    if (!layout.column) return ['Choose a column to group by'];
+    if (!columns.includes(layout.column)) return [`Unknown column "${layout.column}"`];
+  }
+  if (layout.mode === 'template') return validateTemplate(templateFor(layout.pattern), columns, { requireToken: false });
+  return [];
+}
+
+export function applyFolderLayout(tasks: ImageTask[], layout: FolderLayout): ImageTask[] {
+  return tasks.map(task => {
+    const folder = getFolder(task, layout);
+    return folder === task.folder ? task : { ...task, folder };
+  });
+}
+
+export interface FolderNode {
+  name: string;
+  folders: FolderNode[];
+  files: string[];
+  /** Files in this folder and all folders below it */
+  fileCount: number;
+}
+
+/**
+ * Builds the directory tree of a set of archive paths for previewing.
+ */
+export function buildFolderTree(paths: string[]): FolderNode {
+  const root: FolderNode = { name: '', folders: [], files: [], fileCount: 0 };
+
+  paths.forEach(path => {
+    const segments = path.split('/');
+    const file = segments.pop()!;
+    let node = root;
+    node.fileCount++;
+    segments.forEach(segment => {
+      let child = node.folders.find(f => f.name === segment);
+      if (!child) {
+        child = { name: segment, folders: [], files: [], fileCount: 0 };
+        node.folders.push(child);
+      }
+      child.fileCount++;
+      node = child;
+    });
+    node.files.push(file);
+  });
+
+  const sort = (node: FolderNode) => {
+    node.folders.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    node.files.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    node.folders.forEach(sort);
+  };
+  sort(root);
+  return root;
+}
+
+export function loadFolderLayout(): FolderLayout {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_FOLDER_LAYOUT, ...JSON.parse(raw) } : DEFAULT_FOLDER_LAYOUT;
+  } catch {
+    return DEFAULT_FOLDER_LAYOUT;
+  }
+}
+
+export function saveFolderLayout(layout: FolderLayout): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(layout));
+  } catch (err) {
+    console.warn("Could not save folder layout", err);
+  }
+}
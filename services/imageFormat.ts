@@ -0,0 +1,170 @@
+import { ImageFormat, OutputFormatSettings } from '../types';
+import { splitExtension } from '../utils';
+
+const STORAGE_KEY = 'cvent-batcher:output-format';
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormatSettings = { target: 'original', quality: 0.9 };
+
+export const FORMAT_EXTENSIONS: Record<ImageFormat, string> = {
+  jpeg: '.jpg',
+  png: '.png',
+  gif: '.gif',
+  webp: '.webp',
+  heic: '.heic',
+  avif: '.avif',
+  bmp: '.bmp',
+  tiff: '.tif',
+  svg: '.svg'
+};
+
+export const FORMAT_MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  tiff: 'image/tiff',
+  svg: 'image/svg+xml'
+};
+
+const MIME_ALIASES: Record<string, ImageFormat> = {
+  'image/jpg': 'jpeg',
+  'image/pjpeg': 'jpeg',
+  'image/x-png': 'png',
+  'image/heif': 'heic',
+  'image/heic-sequence': 'heic',
+  'image/heif-sequence': 'heic',
+  'image/x-ms-bmp': 'bmp',
+  'image/tif': 'tiff'
+};
+
+// ISO-BMFF brands (bytes 8–11) that identify HEIF-family files.
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+const AVIF_BRANDS = ['avif', 'avis'];
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+/**
+ * Identifies an image from its first bytes. Returns null for anything that
+ * is not a recognised image, e.g. an HTML error page.
+ */
+export function sniffImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (bytes.length >= 8 && ascii(bytes, 1, 3) === 'PNG' && bytes[0] === 0x89) return 'png';
+  if (bytes.length >= 6 && ascii(bytes, 0, 4) === 'GIF8') return 'gif';
+  if (bytes.length >= 12 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+  if (bytes.length >= 12 && ascii(bytes, 4, 4) === 'ftyp') {
+    const brand = ascii(bytes, 8, 4);
+    if (AVIF_BRANDS.includes(brand)) return 'avif';
+    if (HEIC_BRANDS.includes(brand)) return 'heic';
+  }
+  if (bytes.length >= 2 && ascii(bytes, 0, 2) === 'BM') return 'bmp';
+  if (bytes.length >= 4 && (ascii(bytes, 0, 4) === 'II*\u0000' || ascii(bytes, 0, 4) === 'MM\u0000*')) return 'tiff';
+
+  const head = ascii(bytes, 0, Math.min(bytes.length, 256)).trimStart().toLowerCase();
+  if (head.startsWith('<svg') || (head.startsWith('<?xml') && head.includes('<svg'))) return 'svg';
+  return null;
+}
+
+/**
+ * Maps a Content-Type header (parameters allowed) to a format.
+ */
+export function formatFromContentType(contentType: string | null | undefined): ImageFormat | null {
+  const mime = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (!mime.startsWith('image/')) return null;
+  const known = (Object.keys(FORMAT_MIME_TYPES) as ImageFormat[]).find(f => FORMAT_MIME_TYPES[f] === mime);
+  return known || MIME_ALIASES[mime] || null;
+}
+
+/**
+ * Detects the format of a downloaded file. The file signature wins over the
+ * Content-Type header, which image hosts frequently get wrong.
+ */
+export async function detectImageFormat(blob: Blob, contentType?: string | null): Promise<ImageFormat | null> {
+  const head = new Uint8Array(await blob.slice(0, 256).arrayBuffer());
+  return sniffImageFormat(head) || formatFromContentType(contentType || blob.type);
+}
+
+const be16 = (bytes: Uint8Array, i: number) => (bytes[i] << 8) | bytes[i + 1];
+const le16 = (bytes: Uint8Array, i: number) => bytes[i] | (bytes[i + 1] << 8);
+const le24 = (bytes: Uint8Array, i: number) => bytes[i] | (bytes[i + 1] << 8) | (bytes[i + 2] << 16);
+const view = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+const jpegDimensions = (bytes: Uint8Array): { width: number; height: number } | null => {
+  let i = 2;
+  while (i + 9 < bytes.length) {
+    if (bytes[i] !== 0xff) return null;
+    const marker = bytes[i + 1];
+    if (marker === 0xff) { i++; continue; }
+    // Start-of-frame markers; C4, C8 and CC are tables, not frames
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: be16(bytes, i + 5), width: be16(bytes, i + 7) };
+    }
+    i += 2 + be16(bytes, i + 2);
+  }
+  return null;
+};
+
+/**
+ * Reads pixel dimensions from an image header without decoding it. Returns
+ * null for formats it doesn't parse or headers cut short.
+ */
+export function readImageDimensions(bytes: Uint8Array, format: ImageFormat): { width: number; height: number } | null {
+  switch (format) {
+    case 'jpeg': return jpegDimensions(bytes);
+    case 'png': return bytes.length >= 24 ? { width: view(bytes).getUint32(16), height: view(bytes).getUint32(20) } : null;
+    case 'gif': return bytes.length >= 10 ? { width: le16(bytes, 6), height: le16(bytes, 8) } : null;
+    // Negative BMP heights mean the rows are stored top-down
+    case 'bmp': return bytes.length >= 26 ? { width: Math.abs(view(bytes).getInt32(18, true)), height: Math.abs(view(bytes).getInt32(22, true)) } : null;
+    case 'webp': {
+      if (bytes.length < 30) return null;
+      const chunk = ascii(bytes, 12, 4);
+      if (chunk === 'VP8 ') return { width: le16(bytes, 26) & 0x3fff, height: le16(bytes, 28) & 0x3fff };
+      if (chunk === 'VP8L') {
+        return {
+          width: 1 + (((bytes[22] & 0x3f) << 8) | bytes[21]),
+          height: 1 + (((bytes[24] & 0x0f) << 10) | (bytes[23] << 2) | ((bytes[22] & 0xc0) >> 6))
+        };
+      }
+      if (chunk === 'VP8X') return { width: 1 + le24(bytes, 24), height: 1 + le24(bytes, 27) };
+      return null;
+    }
+    default: return null;
+  }
+}
+
+/**
+ * Reads the dimensions of a downloaded image. JPEG headers can sit behind
+ * large EXIF blocks, so more of the file is read for those.
+ */
+export async function detectImageDimensions(blob: Blob, format: ImageFormat): Promise<{ width: number; height: number } | null> {
+  const head = new Uint8Array(await blob.slice(0, format === 'jpeg' ? 256 * 1024 : 64).arrayBuffer());
+  return readImageDimensions(head, format);
+}
+
+/**
+ * Swaps the extension of a filename, adding one if it has none.
+ */
+export function withExtension(filename: string, extension: string): string {
+  return `${splitExtension(filename)[0]}${extension}`;
+}
+
+export function loadOutputFormat(): OutputFormatSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_OUTPUT_FORMAT, ...JSON.parse(raw) } : DEFAULT_OUTPUT_FORMAT;
+  } catch {
+    return DEFAULT_OUTPUT_FORMAT;
+  }
+}
+
+export function saveOutputFormat(settings: OutputFormatSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Could not save output format", err);
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { ImageProcessingSettings, OutputFormatSettings } from '../types';
+import { DEFAULT_PROCESSING, needsProcessing } from './imageProcessing';
+
+const original: OutputFormatSettings = { target: 'original', quality: 0.85 };
+
+const processing = (overrides: Partial<ImageProcessingSettings>): ImageProcessingSettings => ({
+  ...DEFAULT_PROCESSING,
+  enabled: true,
+  fixOrientation: false,
+  stripMetadata: false,
+  ...overrides
+});
+
+describe('needsProcessing', () => {
+  it('copies files through when nothing would change them', () => {
+    expect(needsProcessing('jpeg', processing({}), original)).toBe(false);
+    expect(needsProcessing('jpeg', { ...DEFAULT_PROCESSING, enabled: false }, original)).toBe(false);
+  });
+
+  it('re-encodes to strip metadata even without other changes', () => {
+    expect(needsProcessing('jpeg', processing({ stripMetadata: true }), original)).toBe(true);
+  });
+
+  it('re-encodes for resizing, orientation and format conversion', () => {
+    expect(needsProcessing('jpeg', processing({ maxWidth: 400 }), original)).toBe(true);
+    expect(needsProcessing('jpeg', processing({ fixOrientation: true }), original)).toBe(true);
+    expect(needsProcessing('png', { ...DEFAULT_PROCESSING, enabled: false }, { target: 'jpeg', quality: 0.85 })).toBe(true);
+  });
+});
@@ -0,0 +1,236 @@
+import { ImageFormat, ImageProcessingSettings, OutputFormatSettings, ProcessingPreset } from '../types';
+import { FORMAT_MIME_TYPES } from './imageFormat';
+
+const PRESETS_KEY = 'cvent-batcher:processing-presets';
+const SETTINGS_KEY = 'cvent-batcher:processing-settings';
+
+export const DEFAULT_PROCESSING: ImageProcessingSettings = {
+  enabled: false,
+  maxWidth: 0,
+  maxHeight: 0,
+  crop: 'none',
+  targetKB: 0,
+  fixOrientation: true,
+  stripMetadata: true
+};
+
+type EncodableFormat = 'jpeg' | 'png' | 'webp';
+
+// Shape Detection API; only some Chromium builds ship it.
+interface DetectedFace { boundingBox: DOMRectReadOnly }
+declare const FaceDetector: { new (options?: { maxDetectedFaces?: number; fastMode?: boolean }): { detect(image: ImageBitmapSource): Promise<DetectedFace[]> } } | undefined;
+
+interface CropRect { x: number; y: number; width: number; height: number }
+
+const MIN_QUALITY = 0.4;
+const SIZE_SEARCH_STEPS = 6;
+const MAX_DOWNSCALE_STEPS = 3;
+
+/**
+ * Whether a file has to go through the canvas at all. Untouched files are
+ * copied byte for byte, metadata included; processed ones lose it, which
+ * is how stripping metadata works.
+ */
+export function needsProcessing(format: ImageFormat | undefined, processing: ImageProcessingSettings, output: OutputFormatSettings): boolean {
+  if (output.target !== 'original' && output.target !== format) return true;
+  if (!processing.enabled) return false;
+  return processing.maxWidth > 0 || processing.maxHeight > 0 || processing.crop !== 'none'
+    || processing.targetKB > 0 || processing.fixOrientation || processing.stripMetadata;
+}
+
+const centeredRect = (width: number, height: number, aspect: number, centerX = width / 2, centerY = height / 2): CropRect => {
+  const cropWidth = Math.min(width, height * aspect);
+  const cropHeight = cropWidth / aspect;
+  const x = Math.min(Math.max(centerX - cropWidth / 2, 0), width - cropWidth);
+  const y = Math.min(Math.max(centerY - cropHeight / 2, 0), height - cropHeight);
+  return { x, y, width: cropWidth, height: cropHeight };
+};
+
+/**
+ * Centers a square crop on the largest detected face, leaving headroom above
+ * it. Falls back to a plain center crop when face detection is unavailable.
+ */
+const faceRect = async (bitmap: ImageBitmap): Promise<CropRect> => {
+  if (typeof FaceDetector !== 'undefined') {
+    try {
+      const faces = await new FaceDetector({ maxDetectedFaces: 5, fastMode: true }).detect(bitmap);
+      const face = faces.sort((a, b) => b.boundingBox.width * b.boundingBox.height - a.boundingBox.width * a.boundingBox.height)[0];
+      if (face) {
+        const box = face.boundingBox;
+        return centeredRect(bitmap.width, bitmap.height, 1, box.x + box.width / 2, box.y + box.height * 0.6);
+      }
+    } catch (err) {
+      console.warn("Face detection failed, using center crop", err);
+    }
+  }
+  return centeredRect(bitmap.width, bitmap.height, 1);
+};
+
+const cropRect = async (bitmap: ImageBitmap, processing: ImageProcessingSettings): Promise<CropRect> => {
+  const full = { x: 0, y: 0, width: bitmap.width, height: bitmap.height };
+  if (!processing.enabled) return full;
+  switch (processing.crop) {
+    case 'square': return centeredRect(bitmap.width, bitmap.height, 1);
+    case 'face': return faceRect(bitmap);
+    case 'center':
+      return processing.maxWidth > 0 && processing.maxHeight > 0
+        ? centeredRect(bitmap.width, bitmap.height, processing.maxWidth / processing.maxHeight)
+        : full;
+    default: return full;
+  }
+};
+
+const fitWithin = (width: number, height: number, processing: ImageProcessingSettings) => {
+  if (!processing.enabled) return { width, height };
+  const scaleX = processing.maxWidth > 0 ? processing.maxWidth / width : 1;
+  const scaleY = processing.maxHeight > 0 ? processing.maxHeight / height : 1;
+  const scale = Math.min(1, scaleX, scaleY);
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const encode = (canvas: HTMLCanvasElement, format: EncodableFormat, quality: number): Promise<Blob> => {
+  const mime = FORMAT_MIME_TYPES[format];
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      result => result && result.type === mime ? resolve(result) : reject(new Error(`Browser cannot encode ${format.toUpperCase()}`)),
+      mime,
+      quality
+    );
+  });
+};
+
+const render = (bitmap: ImageBitmap, rect: CropRect, width: number, height: number, format: EncodableFormat) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not available');
+
+  // JPEG has no alpha channel; fill transparent areas white instead of black
+  if (format === 'jpeg') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, rect.x, rect.y, rect.width, rect.height, 0, 0, width, height);
+  return canvas;
+};
+
+/**
+ * Encodes at the requested quality, then searches for the highest quality
+ * that fits the size target. If even the lowest quality is too large the
+ * image is scaled down a few times before giving up.
+ */
+const encodeToTarget = async (
+  bitmap: ImageBitmap,
+  rect: CropRect,
+  size: { width: number; height: number },
+  format: EncodableFormat,
+  quality: number,
+  targetBytes: number
+): Promise<Blob> => {
+  let { width, height } = size;
+  let canvas = render(bitmap, rect, width, height, format);
+  let best = await encode(canvas, format, quality);
+  if (!targetBytes || best.size <= targetBytes || format === 'png') return best;
+
+  for (let step = 0; step <= MAX_DOWNSCALE_STEPS; step++) {
+    let low = MIN_QUALITY;
+    let high = quality;
+    let fitting: Blob | null = null;
+
+    for (let i = 0; i < SIZE_SEARCH_STEPS; i++) {
+      const mid = (low + high) / 2;
+      const candidate = await encode(canvas, format, mid);
+      if (candidate.size <= targetBytes) {
+        fitting = candidate;
+        low = mid;
+      } else {
+        high = mid;
+      }
+      if (candidate.size < best.size) best = candidate;
+    }
+    if (fitting) return fitting;
+
+    width = Math.max(1, Math.round(width * 0.85));
+    height = Math.max(1, Math.round(height * 0.85));
+    canvas = render(bitmap, rect, width, height, format);
+  }
+
+  return best;
+};
+
+/**
+ * Runs one image through the processing stage: orientation, crop, resize,
+ * re-encode and size targeting. Re-encoding through a canvas drops EXIF and
+ * other metadata.
+ */
+export async function processImage(
+  blob: Blob,
+  sourceFormat: ImageFormat | undefined,
+  processing: ImageProcessingSettings,
+  output: OutputFormatSettings
+): Promise<{ blob: Blob; format: EncodableFormat }> {
+  const format: EncodableFormat = output.target !== 'original'
+    ? output.target
+    : sourceFormat === 'png' || sourceFormat === 'webp' ? sourceFormat : 'jpeg';
+
+  const bitmap = await createImageBitmap(blob, {
+    imageOrientation: processing.enabled && !processing.fixOrientation ? 'none' : 'from-image'
+  });
+
+  try {
+    const rect = await cropRect(bitmap, processing);
+    const size = fitWithin(rect.width, rect.height, processing);
+    const targetBytes = processing.enabled ? processing.targetKB * 1024 : 0;
+    return { blob: await encodeToTarget(bitmap, rect, size, format, output.quality, targetBytes), format };
+  } finally {
+    bitmap.close();
+  }
+}
+
+function read<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function write(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.warn(`Could not save ${key}`, err);
+  }
+}
+
+export function loadProcessingSettings(): ImageProcessingSettings {
+  return { ...DEFAULT_PROCESSING, ...read<Partial<ImageProcessingSettings>>(SETTINGS_KEY, {}) };
+}
+
+export function saveProcessingSettings(settings: ImageProcessingSettings): void {
+  write(SETTINGS_KEY, settings);
+}
+
+export function loadPresets(): ProcessingPreset[] {
+  // Presets saved before a setting existed get its default
+  return read<ProcessingPreset[]>(PRESETS_KEY, []).map(p => ({ ...p, processing: { ...DEFAULT_PROCESSING, ...p.processing } }));
+}
+
+/**
+ * Adds or replaces a preset by name and returns the updated list.
+ */
+export function savePreset(preset: ProcessingPreset): ProcessingPreset[] {
+  const presets = [...loadPresets().filter(p => p.name !== preset.name), preset]
+    .sort((a, b) => a.name.localeCompare(b.name));
+  write(PRESETS_KEY, presets);
+  return presets;
+}
+
+export function deletePreset(name: string): ProcessingPreset[] {
+  const presets = loadPresets().filter(p => p.name !== name);
+  write(PRESETS_KEY, presets);
+  return presets;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { clearQualityIssue, hashDistance } from './imageQuality';
+import { makeTask } from './testUtils';
+
+describe('hashDistance', () => {
+  it('is 0 for identical hashes', () => {
+    expect(hashDistance('0123456789abcdef', '0123456789abcdef')).toBe(0);
+  });
+
+  it('counts differing bits across both halves', () => {
+    expect(hashDistance('0000000000000000', '0000000100000001')).toBe(2);
+    expect(hashDistance('0000000000000000', 'f000000000000000')).toBe(4);
+    expect(hashDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+  });
+
+  it('is symmetric', () => {
+    expect(hashDistance('8000000000000001', '00000000ffffffff')).toBe(hashDistance('00000000ffffffff', '8000000000000001'));
+    expect(hashDistance('8000000000000001', '00000000ffffffff')).toBe(32);
+  });
+});
+
+describe('clearQualityIssue', () => {
+  const task = makeTask('a', {
+    status: 'skipped',
+    error: 'Placeholder image',
+    quality: { issue: 'placeholder', reason: 'Placeholder image' }
+  });
+
+  it('puts skipped images back', () => {
+    const cleared = clearQualityIssue(task);
+    expect(cleared).toMatchObject({ status: 'completed', error: undefined });
+    expect(cleared.quality).toBeUndefined();
+  });
+
+  it('leaves tasks without an issue alone', () => {
+    const plain = { ...task, status: 'completed' as const, quality: undefined, error: undefined };
+    expect(clearQualityIssue(plain)).toBe(plain);
+  });
+});
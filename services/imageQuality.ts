@@ -0,0 +1,195 @@
+import { ImageTask, QualityIssueKind, QualitySettings } from '../types';
+
+const SETTINGS_KEY = 'cvent-batcher:quality';
+
+export const DEFAULT_QUALITY: QualitySettings = {
+  minWidth: 100,
+  minHeight: 100,
+  minAspect: 0.5,
+  maxAspect: 2,
+  placeholderHashes: [],
+  placeholderGroupSize: 5,
+  detectDuplicates: true,
+  hashTolerance: 4,
+  skipFlagged: true
+};
+
+export const QUALITY_ISSUE_LABELS: Record<QualityIssueKind, string> = {
+  placeholder: 'Placeholder',
+  duplicate: 'Duplicate photo',
+  'low-resolution': 'Low resolution',
+  'aspect-ratio': 'Aspect ratio'
+};
+
+const HASH_SIZE = 8;
+
+/**
+ * dHash of an image: one bit per pixel of a 9×8 grayscale thumbnail, set
+ * when the pixel is brighter than its right neighbour. Unlike SHA-256 it
+ * survives re-encoding and resizing, so the same picture served at another
+ * size or quality still matches. Null where the image can't be decoded.
+ */
+export async function perceptualHash(blob: Blob): Promise<string | null> {
+  if (typeof createImageBitmap !== 'function') return null;
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(blob, { resizeWidth: HASH_SIZE + 1, resizeHeight: HASH_SIZE, resizeQuality: 'high' });
+  } catch {
+    return null;
+  }
+
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = HASH_SIZE + 1;
+    canvas.height = HASH_SIZE;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.drawImage(bitmap, 0, 0);
+
+    const { data } = ctx.getImageData(0, 0, HASH_SIZE + 1, HASH_SIZE);
+    const luma = (x: number, y: number) => {
+      const i = (y * (HASH_SIZE + 1) + x) * 4;
+      return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+    };
+
+    let hash = '';
+    for (let y = 0; y < HASH_SIZE; y++) {
+      let row = 0;
+      for (let x = 0; x < HASH_SIZE; x++) row = (row << 1) | (luma(x, y) > luma(x + 1, y) ? 1 : 0);
+      hash += row.toString(16).padStart(2, '0');
+    }
+    return hash;
+  } finally {
+    bitmap.close();
+  }
+}
+
+const popcount = (n: number) => {
+  n = n - ((n >>> 1) & 0x55555555);
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  return (((n + (n >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+};
+
+// 64-bit hashes as two 32-bit halves, since bitwise operators work on 32 bits
+const splitHash = (hash: string): [number, number] => [parseInt(hash.slice(0, 8), 16), parseInt(hash.slice(8, 16), 16)];
+
+const distance = (a: [number, number], b: [number, number]) => popcount(a[0] ^ b[0]) + popcount(a[1] ^ b[1]);
+
+/**
+ * Number of bits two perceptual hashes differ in, from 0 (same picture) to 64.
+ */
+export function hashDistance(a: string, b: string): number {
+  return distance(splitHash(a), splitHash(b));
+}
+
+/**
+ * Undoes the marks of an earlier check, putting skipped images back.
+ */
+export function clearQualityIssue(task: ImageTask): ImageTask {
+  if (!task.quality) return task;
+  const { quality, ...rest } = task;
+  return task.status === 'skipped' ? { ...rest, status: 'completed', error: undefined } : rest;
+}
+
+const sizeIssue = (task: ImageTask, settings: QualitySettings): ImageTask['quality'] => {
+  const { width, height } = task;
+  if (!width || !height) return undefined;
+  if ((settings.minWidth && width < settings.minWidth) || (settings.minHeight && height < settings.minHeight)) {
+    return { issue: 'low-resolution', reason: `Too small: ${width} × ${height} px, the minimum is ${settings.minWidth || 'any'} × ${settings.minHeight || 'any'}` };
+  }
+  const aspect = width / height;
+  if ((settings.minAspect && aspect < settings.minAspect) || (settings.maxAspect && aspect > settings.maxAspect)) {
+    return { issue: 'aspect-ratio', reason: `Aspect ratio ${aspect.toFixed(2)} is outside ${settings.minAspect || 0}–${settings.maxAspect || '∞'}` };
+  }
+  return undefined;
+};
+
+/**
+ * Hashes every downloaded image, then flags placeholders, low-resolution
+ * images, odd aspect ratios and photos shared by several attendees. An image
+ * returned for `placeholderGroupSize` or more attendees is taken to be a
+ * placeholder; smaller groups are duplicates, and the first attendee in the
+ * group keeps the photo. Hashes are kept on the tasks so re-running is quick.
+ */
+export async function checkImageQuality(
+  tasks: ImageTask[],
+  settings: QualitySettings,
+  onProgress?: (done: number, total: number) => void
+): Promise<ImageTask[]> {
+  const cleared = tasks.map(clearQualityIssue);
+  const candidates = cleared.filter(t => t.status === 'completed' && t.blob);
+
+  const phashes = new Map<string, string>();
+  const hashes = new Map<string, [number, number]>();
+  for (let i = 0; i < candidates.length; i++) {
+    const task = candidates[i];
+    const phash = task.phash ?? await perceptualHash(task.blob!);
+    if (phash) {
+      phashes.set(task.id, phash);
+      hashes.set(task.id, splitHash(phash));
+    }
+    onProgress?.(i + 1, candidates.length);
+  }
+
+  // Each image joins the group of the first earlier image it matches
+  const known = settings.placeholderHashes.map(splitHash);
+  const groupOf = new Map<string, ImageTask>();
+  const groupSizes = new Map<ImageTask, number>();
+  const hashed = candidates.filter(t => hashes.has(t.id));
+  hashed.forEach((task, i) => {
+    const hash = hashes.get(task.id)!;
+    let first = task;
+    for (let j = 0; j < i; j++) {
+      if (distance(hash, hashes.get(hashed[j].id)!) <= settings.hashTolerance) {
+        first = groupOf.get(hashed[j].id)!;
+        break;
+      }
+    }
+    groupOf.set(task.id, first);
+    groupSizes.set(first, (groupSizes.get(first) || 0) + 1);
+  });
+
+  const issueFor = (task: ImageTask): ImageTask['quality'] => {
+    const hash = hashes.get(task.id);
+    if (hash && known.some(k => distance(hash, k) <= settings.hashTolerance)) {
+      return { issue: 'placeholder', reason: 'Known placeholder image' };
+    }
+    const first = groupOf.get(task.id);
+    const groupSize = first ? groupSizes.get(first)! : 1;
+    if (settings.placeholderGroupSize && groupSize >= settings.placeholderGroupSize) {
+      return { issue: 'placeholder', reason: `Placeholder: the same image was returned for ${groupSize} attendees` };
+    }
+    const sized = sizeIssue(task, settings);
+    if (sized) return sized;
+    if (settings.detectDuplicates && first && first !== task) {
+      return { issue: 'duplicate', reason: `Same photo as ${first.fullName}` };
+    }
+    return undefined;
+  };
+
+  return cleared.map(task => {
+    if (task.status !== 'completed' || !task.blob) return task;
+    const withHash = task.phash === phashes.get(task.id) ? task : { ...task, phash: phashes.get(task.id) };
+    const quality = issueFor(task);
+    if (!quality) return withHash;
+    return settings.skipFlagged ? { ...withHash, quality, status: 'skipped', error: quality.reason } : { ...withHash, quality };
+  });
+}
+
+export function loadQualitySettings(): QualitySettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_QUALITY, ...JSON.parse(raw) } : DEFAULT_QUALITY;
+  } catch {
+    return DEFAULT_QUALITY;
+  }
+}
+
+export function saveQualitySettings(settings: QualitySettings): void {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Could not save quality settings", err);
+  }
+}
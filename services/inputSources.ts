@@ -0,0 +1,237 @@
+import { ParsedSheet } from '../types';
+import { matrixToSheet, readWorkbook } from './workbook';
+
+export const ACCEPTED_INPUTS = '.xlsx,.xls,.xlsm,.ods,.csv,.tsv,.txt,.json';
+
+export const PASTED_LIST_NAME = 'Pasted list';
+
+const WORKBOOK_EXTENSIONS = ['xlsx', 'xls', 'xlsm', 'ods'];
+const TEXT_EXTENSIONS = ['csv', 'tsv', 'txt', 'json'];
+const DELIMITERS = [',', ';', '\t', '|'];
+const URL_PATTERN = /https?:\/\/[^\s<>"']+/i;
+const EDGE_SEPARATORS = /^[\s,;|:<>()[\]-]+|[\s,;|:<>()[\]-]+$/g;
+
+const extensionOf = (filename: string) => (filename.match(/\.([^.]+)$/)?.[1] || '').toLowerCase();
+const baseName = (filename: string) => filename.replace(/\.[^.]+$/, '') || filename;
+
+/**
+ * A file that could be read but whose contents aren't in a usable shape.
+ * The message is meant for the user.
+ */
+export class InputFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InputFormatError';
+  }
+}
+
+export function isWorkbookFile(file: File): boolean {
+  return WORKBOOK_EXTENSIONS.includes(extensionOf(file.name));
+}
+
+/**
+ * Decodes text files from BOM-marked UTF-8/UTF-16, plain UTF-8, or, when the
+ * bytes aren't valid UTF-8, Windows-1252 as older Excel CSV exports use.
+ */
+export function decodeText(data: ArrayBuffer): string {
+  const bytes = new Uint8Array(data);
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return new TextDecoder('utf-8').decode(bytes.subarray(3));
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+}
+
+/**
+ * Counts delimiter occurrences on one line, ignoring those inside quotes.
+ */
+const countOutsideQuotes = (line: string, delimiter: string) => {
+  let count = 0;
+  let quoted = false;
+  for (const ch of line) {
+    if (ch === '"') quoted = !quoted;
+    else if (ch === delimiter && !quoted) count++;
+  }
+  return count;
+};
+
+/**
+ * Picks the delimiter that splits the first lines into the most columns,
+ * preferring ones that give every line the same column count.
+ */
+export function detectDelimiter(text: string): string {
+  const lines = text.split(/\r?\n/).filter(l => l.trim()).slice(0, 20);
+  let best = ',';
+  let bestScore = 0;
+
+  DELIMITERS.forEach(delimiter => {
+    const counts = lines.map(l => countOutsideQuotes(l, delimiter));
+    const columns = Math.min(...counts);
+    if (!counts.length || Math.max(...counts) === 0) return;
+    const consistent = counts.every(c => c === counts[0]);
+    const score = (consistent ? 1000 : 0) + columns * 10 + Math.max(...counts);
+    if (score > bestScore) {
+      bestScore = score;
+      best = delimiter;
+    }
+  });
+  return best;
+}
+
+/**
+ * RFC 4180 parsing: quoted fields may contain delimiters, doubled quotes and
+ * line breaks. Every value is kept as a string so IDs keep leading zeros.
+ */
+export function parseDelimited(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const flatten = (value: unknown, prefix: string, out: Record<string, unknown>) => {
+  if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+    Object.entries(value).forEach(([key, v]) => flatten(v, prefix ? `${prefix}.${key}` : key, out));
+  } else {
+    out[prefix] = Array.isArray(value) ? value.join(', ') : value ?? '';
+  }
+};
+
+/**
+ * Accepts an array of records, an array of rows with a header row first, or
+ * an object wrapping either (e.g. an API response with a `data` array).
+ * Nested objects become dotted columns such as `contact.email`.
+ */
+export function parseJsonRecords(text: string): unknown[][] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new InputFormatError('The file is not valid JSON.');
+  }
+  if (data && !Array.isArray(data) && typeof data === 'object') {
+    data = Object.values(data).find(Array.isArray) ?? [data];
+  }
+  if (!Array.isArray(data)) {
+    throw new InputFormatError(`Expected a list of records in the JSON file, but found ${data === null ? 'null' : `a ${typeof data}`}.`);
+  }
+  const items: unknown[] = data;
+  if (items.length === 0) return [];
+  if (items.every(Array.isArray)) return items as unknown[][];
+
+  const records = items.map(item => {
+    const flat: Record<string, unknown> = {};
+    flatten(item, '', flat);
+    return flat;
+  });
+  const headers = Array.from(new Set(records.flatMap(r => Object.keys(r))));
+  return [headers, ...records.map(r => headers.map(h => r[h] ?? ''))];
+}
+
+/**
+ * Reads names and URLs pasted from an email or chat. Text that looks like a
+ * table with a header row is parsed as one; otherwise each line needs a URL
+ * and whatever else is on the line is taken as the name.
+ */
+export function readPastedText(text: string, name = PASTED_LIST_NAME): ParsedSheet[] {
+  const delimited = matrixToSheet(name, parseDelimited(text));
+  if (delimited.headerRowIndex !== -1 && delimited.headers.length > 1 && !URL_PATTERN.test(delimited.headers.join(' '))) {
+    return [delimited];
+  }
+
+  const matrix: unknown[][] = [['Full Name', 'Image URL']];
+  text.split(/\r?\n/).forEach(line => {
+    const url = line.match(URL_PATTERN)?.[0];
+    // Separators around the URL go, but a comma inside 'Last, First' stays
+    const fullName = line.replace(URL_PATTERN, ' ').replace(/\s+/g, ' ').replace(EDGE_SEPARATORS, '');
+    matrix.push(url ? [fullName, url] : []);
+  });
+  return [matrixToSheet(name, matrix, 0, 0)];
+}
+
+/**
+ * Reads several files into one list of sheets, tagged with their source.
+ * With more than one file, workbook sheets are prefixed with the file name
+ * and any remaining clashes get a number so every group stays distinct.
+ */
+export async function readInputFiles(files: File[]): Promise<ParsedSheet[]> {
+  const sheets: ParsedSheet[] = [];
+  const used = new Set<string>();
+
+  for (const [index, file] of files.entries()) {
+    const fileSheets = await readInputFile(file);
+    fileSheets.forEach(sheet => {
+      const label = files.length > 1 && isWorkbookFile(file) ? `${baseName(file.name)} - ${sheet.name}` : sheet.name;
+      let name = label;
+      for (let n = 2; used.has(name.toLowerCase()); n++) name = `${label} (${n})`;
+      used.add(name.toLowerCase());
+      sheets.push({ ...sheet, name, source: file.name, sourceIndex: index, sourceSheet: name === sheet.name ? undefined : sheet.name });
+    });
+  }
+  return sheets;
+}
+
+/**
+ * Reads any supported input into sheets. Workbooks keep their own sheets;
+ * every other file becomes a single group named after the file.
+ */
+export async function readInputFile(file: File): Promise<ParsedSheet[]> {
+  const data = await file.arrayBuffer();
+  const extension = extensionOf(file.name);
+  if (WORKBOOK_EXTENSIONS.includes(extension)) return readWorkbook(data);
+
+  const text = decodeText(data);
+  const name = baseName(file.name);
+  if (extension === 'json') {
+    try {
+      return [matrixToSheet(name, parseJsonRecords(text), 0, 0)];
+    } catch (err) {
+      throw err instanceof InputFormatError ? new InputFormatError(`${file.name}: ${err.message}`) : err;
+    }
+  }
+  // Only files without a known extension are sniffed, so a CSV whose first cell starts with a bracket stays a CSV
+  if (!TEXT_EXTENSIONS.includes(extension) && /^\s*[[{]/.test(text)) {
+    try {
+      return [matrixToSheet(name, parseJsonRecords(text), 0, 0)];
+    } catch (err) {
+      if (!(err instanceof InputFormatError)) throw err;
+    }
+  }
+  if (extension === 'txt') return readPastedText(text, name);
+  return [matrixToSheet(name, parseDelimited(text, extension === 'tsv' ? '\t' : detectDelimiter(text)))];
+}
@@ -0,0 +1,25 @@
+/** Served by the Vite dev and preview servers, see server/imageProxy.ts */
+export const IMAGE_PROXY_PATH = '/__image-proxy';
+
+/** Set on every proxy response so the app can tell it apart from a static 404 page */
+export const PROXY_MARKER_HEADER = 'X-Image-Proxy';
+
+/** Explains responses the proxy generated itself, e.g. a host not on the allowlist */
+export const PROXY_ERROR_HEADER = 'X-Proxy-Error';
+
+export function proxiedUrl(url: string): string {
+  return `${IMAGE_PROXY_PATH}?url=${encodeURIComponent(url)}`;
+}
+
+/**
+ * Checks whether the page is served by a server with the proxy, which is
+ * only the case under `npm run dev` and `npm run preview`.
+ */
+export async function detectProxy(): Promise<boolean> {
+  try {
+    const response = await fetch(IMAGE_PROXY_PATH, { method: 'HEAD' });
+    return response.headers.has(PROXY_MARKER_HEADER);
+  } catch {
+    return false;
+  }
+}
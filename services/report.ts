@@ -0,0 +1,96 @@
+import * as XLSX from 'xlsx';
+import { ImageTask } from '../types';
+import { toCsvRow } from '../utils';
+import { getOutputPath } from './collisions';
+
+export type ReportFormat = 'csv' | 'xlsx' | 'json';
+
+type ReportValue = string | number | boolean | null;
+
+const COLUMNS: { header: string; key: string; value: (task: ImageTask, outputPath: string | null) => ReportValue }[] = [
+  { header: 'Source File', key: 'source', value: t => t.source ?? null },
+  { header: 'Sheet', key: 'sheet', value: t => t.sheet },
+  { header: 'Row', key: 'row', value: t => t.rowIndex + 1 },
+  { header: 'Full Name', key: 'fullName', value: t => t.fullName },
+  { header: 'Source URL', key: 'url', value: t => t.url },
+  { header: 'Output Path', key: 'outputPath', value: (_, path) => path },
+  { header: 'Status', key: 'status', value: t => t.status },
+  { header: 'Error Type', key: 'errorKind', value: t => t.errorKind ?? null },
+  { header: 'Error', key: 'error', value: t => t.error ?? null },
+  { header: 'Quality Issue', key: 'qualityIssue', value: t => t.quality?.issue ?? null },
+  { header: 'HTTP Status', key: 'httpStatus', value: t => t.httpStatus ?? null },
+  { header: 'Attempts', key: 'attempts', value: t => t.attempts ?? null },
+  { header: 'Bytes', key: 'bytes', value: t => t.bytes ?? t.blob?.size ?? null },
+  { header: 'Content Type', key: 'contentType', value: t => t.contentType ?? null },
+  { header: 'Width', key: 'width', value: t => t.width ?? null },
+  { header: 'Height', key: 'height', value: t => t.height ?? null },
+  { header: 'Duration (ms)', key: 'durationMs', value: t => t.durationMs ?? null },
+  { header: 'SHA-256', key: 'sha256', value: t => t.sha256 ?? null },
+  { header: 'Excluded', key: 'excluded', value: t => !!t.excluded },
+  { header: 'Replaced With', key: 'replacement', value: t => t.replacement ?? null },
+  { header: 'Registration Date', key: 'registrationDate', value: t => t.registrationDate ? t.registrationDate.toISOString().split('T')[0] : null },
+  { header: 'Selected', key: 'selected', value: t => t.isSelected }
+];
+
+const STATUS_SHEETS: { status: ImageTask['status']; name: string }[] = [
+  { status: 'completed', name: 'Completed' },
+  { status: 'failed', name: 'Failed' },
+  { status: 'skipped', name: 'Skipped' },
+  { status: 'pending', name: 'Pending' },
+  { status: 'downloading', name: 'Downloading' }
+];
+
+export const REPORT_MIME_TYPES: Record<ReportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json'
+};
+
+/**
+ * Where each task is, or would be, written. Pass the paths actually used in
+ * a ZIP so renames made while writing it show up in the report.
+ */
+export function resolveOutputPath(task: ImageTask, written?: Map<string, string>): string | null {
+  return written?.get(task.id) ?? (task.status === 'completed' && !task.excluded ? getOutputPath(task) : null);
+}
+
+const toRows = (tasks: ImageTask[], written?: Map<string, string>) =>
+  tasks.map(task => {
+    const path = resolveOutputPath(task, written);
+    return COLUMNS.map(c => c.value(task, path));
+  });
+
+/**
+ * Builds the run report for every task in the given format.
+ */
+export function buildReport(tasks: ImageTask[], format: ReportFormat, written?: Map<string, string>): Blob {
+  const headers = COLUMNS.map(c => c.header);
+
+  if (format === 'csv') {
+    const lines = [toCsvRow(headers), ...toRows(tasks, written).map(toCsvRow)];
+    return new Blob([lines.join('\n') + '\n'], { type: REPORT_MIME_TYPES.csv });
+  }
+
+  if (format === 'json') {
+    const report = {
+      generatedAt: new Date().toISOString(),
+      total: tasks.length,
+      tasks: toRows(tasks, written).map(row => Object.fromEntries(COLUMNS.map((c, i) => [c.key, row[i]])))
+    };
+    return new Blob([JSON.stringify(report, null, 2)], { type: REPORT_MIME_TYPES.json });
+  }
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([headers, ...toRows(tasks, written)]), 'All');
+  STATUS_SHEETS.forEach(({ status, name }) => {
+    const matching = tasks.filter(t => t.status === status);
+    if (matching.length === 0) return;
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([headers, ...toRows(matching, written)]), name);
+  });
+  const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+  return new Blob([data], { type: REPORT_MIME_TYPES.xlsx });
+}
+
+export function reportFilename(baseName: string, format: ReportFormat): string {
+  return `${baseName}_report.${format}`;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { FilterCondition, ImageTask, RowFilter } from '../types';
+import { compileRowFilter, EMPTY_ROW_FILTER, getConditionIssue } from './rowFilter';
+import { makeTask } from './testUtils';
+
+const task = (fields: Record<string, string>): ImageTask => makeTask(fields.Name, { fullName: fields.Name, fields });
+
+const speaker = task({ Name: 'Jane Doe', Role: 'Speaker', Company: 'Acme', Track: '' });
+const guest = task({ Name: 'John Roe', Role: 'Guest', Company: 'Globex', Track: 'AI' });
+const sponsor = task({ Name: 'Ann Poe', Role: ' sponsor ', Company: 'Acme Labs', Track: 'Cloud' });
+const everyone = [speaker, guest, sponsor];
+
+const condition = (column: string, operator: FilterCondition['operator'], value = ''): FilterCondition => ({ column, operator, value });
+
+const matching = (filter: RowFilter) => everyone.filter(compileRowFilter(filter)).map(t => t.fields.Name);
+
+const single = (c: FilterCondition): RowFilter => ({ match: 'all', groups: [{ match: 'all', conditions: [c] }] });
+
+describe('getConditionIssue', () => {
+  it('needs a column and, for most operators, a value', () => {
+    expect(getConditionIssue(condition('', 'empty'))).toBe('Choose a column');
+    expect(getConditionIssue(condition('Role', 'equals'))).toBe('Enter a value');
+    expect(getConditionIssue(condition('Role', 'equals', '  '))).toBe('Enter a value');
+    expect(getConditionIssue(condition('Role', 'empty'))).toBeNull();
+  });
+
+  it('rejects invalid regular expressions', () => {
+    expect(getConditionIssue(condition('Role', 'regex', '('))).toBe('Invalid regular expression');
+    expect(getConditionIssue(condition('Role', 'regex', '^sp'))).toBeNull();
+  });
+});
+
+describe('compileRowFilter', () => {
+  it('matches every row when there is nothing to apply', () => {
+    expect(matching(EMPTY_ROW_FILTER)).toHaveLength(3);
+  });
+
+  it('compares ignoring case and surrounding spaces', () => {
+    expect(matching(single(condition('Role', 'equals', 'SPONSOR')))).toEqual(['Ann Poe']);
+    expect(matching(single(condition('Role', 'not-equals', 'guest')))).toEqual(['Jane Doe', 'Ann Poe']);
+    expect(matching(single(condition('Company', 'contains', 'acme')))).toEqual(['Jane Doe', 'Ann Poe']);
+    expect(matching(single(condition('Company', 'not-contains', 'acme')))).toEqual(['John Roe']);
+  });
+
+  it('handles lists, patterns and empty cells', () => {
+    expect(matching(single(condition('Track', 'in-list', 'ai, cloud')))).toEqual(['John Roe', 'Ann Poe']);
+    expect(matching(single(condition('Company', 'regex', 'labs$')))).toEqual(['Ann Poe']);
+    expect(matching(single(condition('Track', 'empty')))).toEqual(['Jane Doe']);
+    expect(matching(single(condition('Track', 'not-empty')))).toEqual(['John Roe', 'Ann Poe']);
+  });
+
+  it('leaves out conditions that still need a value', () => {
+    // A freshly added condition must not deselect anything
+    expect(matching(single(condition('Name', 'equals')))).toHaveLength(3);
+  });
+
+  it('combines conditions within and across groups', () => {
+    const filter: RowFilter = {
+      match: 'any',
+      groups: [
+        { match: 'all', conditions: [condition('Company', 'contains', 'acme'), condition('Track', 'not-empty')] },
+        { match: 'any', conditions: [condition('Role', 'equals', 'guest'), condition('Name', 'regex', '(')] }
+      ]
+    };
+    expect(matching(filter)).toEqual(['John Roe', 'Ann Poe']);
+    expect(matching({ ...filter, match: 'all' })).toEqual([]);
+  });
+
+  it('treats missing columns as empty', () => {
+    expect(matching(single(condition('Badge', 'empty')))).toHaveLength(3);
+  });
+});
@@ -0,0 +1,111 @@
+import { FilterCondition, FilterOperator, FilterPreset, ImageTask, RowFilter } from '../types';
+
+const PRESETS_KEY = 'cvent-batcher:filter-presets';
+
+export const EMPTY_ROW_FILTER: RowFilter = { match: 'all', groups: [] };
+
+export const FILTER_OPERATORS: { value: FilterOperator; label: string; needsValue: boolean }[] = [
+  { value: 'equals', label: 'equals', needsValue: true },
+  { value: 'not-equals', label: 'does not equal', needsValue: true },
+  { value: 'contains', label: 'contains', needsValue: true },
+  { value: 'not-contains', label: 'does not contain', needsValue: true },
+  { value: 'regex', label: 'matches regex', needsValue: true },
+  { value: 'in-list', label: 'is one of', needsValue: true },
+  { value: 'empty', label: 'is empty', needsValue: false },
+  { value: 'not-empty', label: 'is not empty', needsValue: false }
+];
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const parseList = (value: string) => new Set(value.split(/[,\n]/).map(normalize).filter(Boolean));
+
+/**
+ * Problem with a condition that keeps it from being applied, or null.
+ */
+export function getConditionIssue(condition: FilterCondition): string | null {
+  if (!condition.column) return 'Choose a column';
+  // A new condition starts empty and shouldn't filter anything until it is filled in
+  if (FILTER_OPERATORS.find(o => o.value === condition.operator)?.needsValue && !condition.value.trim()) return 'Enter a value';
+  if (condition.operator === 'regex') {
+    try {
+      new RegExp(condition.value, 'i');
+    } catch {
+      return 'Invalid regular expression';
+    }
+  }
+  return null;
+}
+
+type Test = (task: ImageTask) => boolean;
+
+const compileCondition = (condition: FilterCondition): Test | null => {
+  if (getConditionIssue(condition)) return null;
+  const raw = (task: ImageTask) => task.fields[condition.column] ?? '';
+  const cell = (task: ImageTask) => normalize(raw(task));
+  const value = normalize(condition.value);
+
+  switch (condition.operator) {
+    case 'equals': return t => cell(t) === value;
+    case 'not-equals': return t => cell(t) !== value;
+    case 'contains': return t => cell(t).includes(value);
+    case 'not-contains': return t => !cell(t).includes(value);
+    case 'regex': {
+      // Patterns see the cell as written, so anchors and spacing behave as expected
+      const pattern = new RegExp(condition.value, 'i');
+      return t => pattern.test(raw(t));
+    }
+    case 'in-list': {
+      const list = parseList(condition.value);
+      return t => list.has(cell(t));
+    }
+    case 'empty': return t => cell(t) === '';
+    case 'not-empty': return t => cell(t) !== '';
+  }
+};
+
+const combine = (tests: Test[], match: 'all' | 'any'): Test =>
+  match === 'all' ? t => tests.every(test => test(t)) : t => tests.some(test => test(t));
+
+/**
+ * Compiles a row filter into a test. Conditions that can't be applied yet,
+ * such as one without a column or value, are left out, and so are empty groups; a
+ * filter with nothing left matches every row.
+ */
+export function compileRowFilter(filter: RowFilter): Test {
+  const groups = filter.groups
+    .map(group => group.conditions.map(compileCondition).filter((test): test is Test => test !== null))
+    .map((tests, i) => tests.length ? combine(tests, filter.groups[i].match) : null)
+    .filter((test): test is Test => test !== null);
+  return groups.length ? combine(groups, filter.match) : () => true;
+}
+
+export function loadFilterPresets(): FilterPreset[] {
+  try {
+    const raw = localStorage.getItem(PRESETS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeFilterPresets(presets: FilterPreset[]): FilterPreset[] {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  } catch (err) {
+    console.warn("Could not save filter presets", err);
+  }
+  return presets;
+}
+
+/**
+ * Adds or replaces a preset by name and returns the updated list.
+ */
+export function saveFilterPreset(preset: FilterPreset): FilterPreset[] {
+  return writeFilterPresets(
+    [...loadFilterPresets().filter(p => p.name !== preset.name), preset].sort((a, b) => a.name.localeCompare(b.name))
+  );
+}
+
+export function deleteFilterPreset(name: string): FilterPreset[] {
+  return writeFilterPresets(loadFilterPresets().filter(p => p.name !== name));
+}
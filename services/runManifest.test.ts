@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { ImageTask } from '../types';
+import { applyBaseline, buildManifestEntries, manifestKeys, matchesBaselineImage } from './runManifest';
+import { makeTask } from './testUtils';
+
+const task = (id: string, fullName: string, overrides: Partial<ImageTask> = {}): ImageTask =>
+  makeTask(id, { fullName, filename: `${id}.jpg`, status: 'completed', sha256: `hash-${id}`, ...overrides });
+
+describe('manifestKeys', () => {
+  it('tells namesakes apart by URL and gives no key to identical rows', () => {
+    const keys = manifestKeys([
+      task('a', 'Jane Doe'),
+      task('b', ' jane  DOE '),
+      task('c', 'John Roe'),
+      task('d', 'Ann Poe', { url: 'https://img.test/same.jpg' }),
+      task('e', 'Ann Poe', { url: 'https://img.test/same.jpg' })
+    ]);
+    expect(keys.get('a')).not.toBe(keys.get('b'));
+    expect(keys.get('c')).toBe('attendees\u0000john roe');
+    expect(keys.get('d')).toBeNull();
+    expect(keys.get('e')).toBeNull();
+  });
+});
+
+describe('applyBaseline', () => {
+  const previous = [task('a', 'Jane Doe'), task('b', 'Jane Doe'), task('c', 'John Roe')];
+  const baseline = { id: 'run-1', entries: buildManifestEntries(previous) };
+
+  it('skips unchanged namesakes without mixing them up', () => {
+    const next = previous.map(t => ({ ...t, status: 'pending' as const, sha256: undefined }));
+    next[1] = { ...next[1], url: 'https://img.test/new.jpg' };
+
+    const { tasks, diff } = applyBaseline(next, baseline);
+
+    expect(tasks.map(t => t.status)).toEqual(['skipped', 'pending', 'skipped']);
+    expect(tasks[0].sha256).toBe('hash-a');
+    expect(diff).toMatchObject({ unchanged: 2, added: 1, removed: [expect.objectContaining({ url: 'https://img.test/b.jpg' })] });
+  });
+
+  it('only treats a download as the same image when both hashes are known', () => {
+    const entries = new Map(baseline.entries.map(e => [e.key, e]));
+    const keys = manifestKeys(previous);
+    expect(matchesBaselineImage(previous[2], keys.get('c'), entries)).toBe(true);
+    expect(matchesBaselineImage({ ...previous[2], sha256: undefined }, keys.get('c'), entries)).toBe(false);
+  });
+});
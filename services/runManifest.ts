@@ -0,0 +1,149 @@
+import { ImageTask, ManifestEntry, RunDiff, RunManifestSummary } from '../types';
+import { MANIFEST_ENTRIES, MANIFESTS, openDb, requestResult, transactionDone } from './db';
+
+const clean = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Identity of each attendee across runs, by task id. URLs are deliberately
+ * left out so a new photo URL shows up as a change rather than as a new
+ * attendee, except to tell apart people with the same name in one sheet.
+ * Rows that still can't be told apart get no key.
+ */
+export function manifestKeys(tasks: ImageTask[]): Map<string, string | null> {
+  const byName = new Map<string, ImageTask[]>();
+  tasks.forEach(t => {
+    const key = `${clean(t.sheet)}\u0000${clean(t.fullName)}`;
+    const group = byName.get(key);
+    if (group) group.push(t);
+    else byName.set(key, [t]);
+  });
+
+  const keys = new Map<string, string | null>();
+  byName.forEach((group, key) => {
+    if (group.length === 1) {
+      keys.set(group[0].id, key);
+      return;
+    }
+    const urls = group.map(t => t.url.trim());
+    group.forEach((t, i) => keys.set(t.id, urls.indexOf(urls[i]) === urls.lastIndexOf(urls[i]) ? `${key}\u0000${urls[i]}` : null));
+  });
+  return keys;
+}
+
+/**
+ * Records every attendee whose photo was delivered in this run, including
+ * ones skipped as unchanged so they stay in the baseline for the next run.
+ * Attendees without a key are left out.
+ */
+export function buildManifestEntries(tasks: ImageTask[]): ManifestEntry[] {
+  const keys = manifestKeys(tasks);
+  return tasks
+    .filter(t => keys.get(t.id) && !t.excluded && (t.status === 'completed' || t.unchangedSince))
+    .map(t => ({
+      key: keys.get(t.id)!,
+      sheet: t.sheet,
+      fullName: t.fullName,
+      url: t.url,
+      filename: t.filename,
+      sha256: t.sha256
+    }));
+}
+
+/**
+ * Undoes a previous baseline comparison so a different one can be applied.
+ */
+const clearBaseline = (task: ImageTask): ImageTask => {
+  if (!task.unchangedSince) return task;
+  const { unchangedSince, ...rest } = task;
+  return task.status === 'skipped'
+    ? { ...rest, status: 'pending', error: undefined, sha256: undefined }
+    : rest;
+};
+
+/**
+ * Compares the current tasks against a previous run. Pending tasks whose
+ * attendee and URL are unchanged are marked skipped; everything else is
+ * counted as added or changed, or as ambiguous when it has no key. Passing
+ * no baseline just clears old marks.
+ */
+export function applyBaseline(
+  tasks: ImageTask[],
+  baseline: { id: string; entries: ManifestEntry[] } | null
+): { tasks: ImageTask[]; diff: RunDiff | null } {
+  const cleared = tasks.map(clearBaseline);
+  if (!baseline) return { tasks: cleared, diff: null };
+
+  const previous = new Map(baseline.entries.map(e => [e.key, e]));
+  const seen = new Set<string>();
+  const diff: RunDiff = { added: 0, changed: 0, unchanged: 0, ambiguous: 0, removed: [] };
+  const keys = manifestKeys(cleared);
+
+  const result = cleared.map(task => {
+    const key = keys.get(task.id);
+    if (!key) {
+      diff.ambiguous++;
+      return task;
+    }
+    seen.add(key);
+    const entry = previous.get(key);
+
+    if (!entry) {
+      diff.added++;
+      return task;
+    }
+    if (entry.url !== task.url) {
+      diff.changed++;
+      return task;
+    }
+    diff.unchanged++;
+    return task.status === 'pending'
+      ? { ...task, status: 'skipped' as const, error: 'Unchanged since previous run', unchangedSince: baseline.id, sha256: entry.sha256 }
+      : task;
+  });
+
+  diff.removed = baseline.entries.filter(e => !seen.has(e.key));
+  return { tasks: result, diff };
+}
+
+/**
+ * Catches attendees whose URL changed but whose photo did not, by comparing
+ * the downloaded bytes with the baseline.
+ */
+export function matchesBaselineImage(task: ImageTask, key: string | null | undefined, entries: Map<string, ManifestEntry>): boolean {
+  const entry = key ? entries.get(key) : undefined;
+  return !!entry && !!task.sha256 && entry.sha256 === task.sha256;
+}
+
+export async function listManifests(): Promise<RunManifestSummary[]> {
+  const db = await openDb();
+  const manifests = await requestResult(db.transaction(MANIFESTS).objectStore(MANIFESTS).getAll() as IDBRequest<RunManifestSummary[]>);
+  return manifests.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Saves (or replaces) the manifest of a run. Runs are keyed by session so
+ * exporting the same batch twice doesn't create two baselines.
+ */
+export async function saveManifest(id: string, name: string, entries: ManifestEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction([MANIFESTS, MANIFEST_ENTRIES], 'readwrite');
+  const summary: RunManifestSummary = { id, name, createdAt: Date.now(), count: entries.length };
+  tx.objectStore(MANIFESTS).put(summary);
+  tx.objectStore(MANIFEST_ENTRIES).put(entries, id);
+  await transactionDone(tx);
+}
+
+export async function loadManifestEntries(id: string): Promise<ManifestEntry[]> {
+  const db = await openDb();
+  const entries = await requestResult(db.transaction(MANIFEST_ENTRIES).objectStore(MANIFEST_ENTRIES).get(id) as IDBRequest<ManifestEntry[] | undefined>);
+  return entries || [];
+}
+
+export async function deleteManifest(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([MANIFESTS, MANIFEST_ENTRIES], 'readwrite');
+  tx.objectStore(MANIFESTS).delete(id);
+  tx.objectStore(MANIFEST_ENTRIES).delete(id);
+  await transactionDone(tx);
+}
@@ -0,0 +1,96 @@
+import { ImageTask, SessionSnapshot, SessionSummary } from '../types';
+import { BLOBS, openDb, requestResult, SESSIONS, SNAPSHOTS, transactionDone } from './db';
+
+interface BlobRecord {
+  key: string;
+  sessionId: string;
+  taskId: string;
+  blob: Blob;
+}
+
+export function createSessionId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Saved sessions, most recently updated first.
+ */
+export async function listSessions(): Promise<SessionSummary[]> {
+  const db = await openDb();
+  const sessions = await requestResult(db.transaction(SESSIONS).objectStore(SESSIONS).getAll() as IDBRequest<SessionSummary[]>);
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Writes the task list and filters of a session. Blobs are left out and
+ * saved separately with saveSessionBlobs.
+ */
+export async function saveSession(id: string, name: string, snapshot: SessionSnapshot): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, SNAPSHOTS], 'readwrite');
+  const sessions = tx.objectStore(SESSIONS);
+
+  const existing = await requestResult(sessions.get(id) as IDBRequest<SessionSummary | undefined>);
+  const summary: SessionSummary = {
+    id,
+    name,
+    createdAt: existing?.createdAt ?? Date.now(),
+    updatedAt: Date.now(),
+    total: snapshot.tasks.length,
+    completed: snapshot.tasks.filter(t => t.status === 'completed').length,
+    failed: snapshot.tasks.filter(t => t.status === 'failed').length
+  };
+  sessions.put(summary);
+  tx.objectStore(SNAPSHOTS).put(snapshot, id);
+  await transactionDone(tx);
+}
+
+export async function saveSessionBlobs(sessionId: string, entries: { taskId: string; blob: Blob }[]): Promise<void> {
+  if (entries.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(BLOBS, 'readwrite');
+  const store = tx.objectStore(BLOBS);
+  entries.forEach(({ taskId, blob }) => {
+    const record: BlobRecord = { key: `${sessionId}:${taskId}`, sessionId, taskId, blob };
+    store.put(record);
+  });
+  await transactionDone(tx);
+}
+
+/**
+ * Loads a session with its blobs reattached. Tasks that were mid-download
+ * when the tab closed come back as pending.
+ */
+export async function loadSession(id: string): Promise<{ summary: SessionSummary; snapshot: SessionSnapshot; tasks: ImageTask[] } | null> {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, SNAPSHOTS, BLOBS]);
+  const [summary, snapshot, blobs] = await Promise.all([
+    requestResult(tx.objectStore(SESSIONS).get(id) as IDBRequest<SessionSummary | undefined>),
+    requestResult(tx.objectStore(SNAPSHOTS).get(id) as IDBRequest<SessionSnapshot | undefined>),
+    requestResult(tx.objectStore(BLOBS).index('sessionId').getAll(id) as IDBRequest<BlobRecord[]>)
+  ]);
+  if (!summary || !snapshot) return null;
+  snapshot.files = snapshot.files ?? (snapshot.file ? [snapshot.file] : []);
+
+  const blobByTask = new Map(blobs.map(b => [b.taskId, b.blob]));
+  const tasks = snapshot.tasks.map((task): ImageTask => {
+    const blob = blobByTask.get(task.id);
+    if (task.status === 'downloading') return { ...task, status: 'pending' };
+    // A completed task whose blob never made it to disk has to be fetched again
+    if (task.status === 'completed' && !blob) return { ...task, status: 'pending' };
+    return blob ? { ...task, blob } : task;
+  });
+
+  return { summary, snapshot, tasks };
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, SNAPSHOTS, BLOBS], 'readwrite');
+  tx.objectStore(SESSIONS).delete(id);
+  tx.objectStore(SNAPSHOTS).delete(id);
+  const blobs = tx.objectStore(BLOBS);
+  const keys = await requestResult(blobs.index('sessionId').getAllKeys(id));
+  keys.forEach(key => blobs.delete(key));
+  await transactionDone(tx);
+}
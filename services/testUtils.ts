@@ -0,0 +1,20 @@
+import { ImageTask } from '../types';
+
+/**
+ * A pending, selected task for Jane Doe with a photo URL derived from its id.
+ * Tests override whatever they exercise.
+ */
+export function makeTask(id: string, overrides: Partial<ImageTask> = {}): ImageTask {
+  return {
+    id,
+    sheet: 'Attendees',
+    rowIndex: 0,
+    fullName: 'Jane Doe',
+    url: `https://img.test/${id}.jpg`,
+    filename: 'Doe.Jane.jpg',
+    isSelected: true,
+    status: 'pending',
+    fields: {},
+    ...overrides
+  };
+}
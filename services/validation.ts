@@ -0,0 +1,122 @@
+import { ColumnMapping, FetchMode, ImageTask, SchedulerSettings, ValidationIssue } from '../types';
+import { normalizeName, normalizeNameParts } from '../utils';
+import { DEFAULT_SCHEDULER, hostOf, QueueControl, runScheduled } from './downloadQueue';
+import { PROXY_ERROR_HEADER, proxiedUrl } from './proxy';
+
+const HEAD_CHECK_CONCURRENCY = 6;
+
+// Servers that don't implement HEAD; the URL may still work with GET.
+const HEAD_UNSUPPORTED = new Set([405, 501]);
+
+const checkUrl = (task: ImageTask): ValidationIssue | null => {
+  const url = task.url.trim();
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { taskId: task.id, severity: 'error', code: 'invalid-url', message: `Not a valid URL: ${url.slice(0, 60)}` };
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return { taskId: task.id, severity: 'error', code: 'unsupported-url', message: `Unsupported ${parsed.protocol.replace(':', '')} URL` };
+  }
+  if (!parsed.hostname.includes('.') && parsed.hostname !== 'localhost') {
+    return { taskId: task.id, severity: 'warning', code: 'invalid-url', message: `Host "${parsed.hostname}" looks incomplete` };
+  }
+  return null;
+};
+
+const checkName = (task: ImageTask): ValidationIssue | null => {
+  if (!task.fullName.trim()) {
+    return { taskId: task.id, severity: 'error', code: 'missing-name', message: 'Name is blank' };
+  }
+  const normalized = task.firstName !== undefined || task.lastName !== undefined
+    ? normalizeNameParts(task.firstName ?? '', task.lastName ?? '')
+    : normalizeName(task.fullName);
+  return normalized.split('.').includes('Unknown')
+    ? { taskId: task.id, severity: 'warning', code: 'suspicious-name', message: `"${task.fullName}" becomes ${normalized}` }
+    : null;
+};
+
+/**
+ * Checks pending tasks for problems that can be found without the network:
+ * unusable URLs, names that normalize to Unknown, date cells that could not
+ * be read and photo URLs shared by several attendees.
+ */
+export function validateTasks(tasks: ImageTask[], mappings: Record<string, ColumnMapping>): ValidationIssue[] {
+  const pending = tasks.filter(t => t.status === 'pending');
+  const issues: ValidationIssue[] = [];
+
+  pending.forEach(task => {
+    const urlIssue = checkUrl(task);
+    if (urlIssue) issues.push(urlIssue);
+    const nameIssue = checkName(task);
+    if (nameIssue) issues.push(nameIssue);
+
+    const dateColumn = mappings[task.sheet]?.registrationDate;
+    if (dateColumn && task.fields[dateColumn] && !task.registrationDate) {
+      issues.push({ taskId: task.id, severity: 'warning', code: 'bad-date', message: `Unreadable registration date "${task.fields[dateColumn]}"` });
+    }
+  });
+
+  const byUrl = new Map<string, ImageTask[]>();
+  pending.forEach(task => {
+    const url = task.url.trim();
+    byUrl.set(url, [...(byUrl.get(url) || []), task]);
+  });
+  byUrl.forEach(group => {
+    if (group.length < 2) return;
+    group.forEach(task => {
+      const others = group.filter(t => t !== task).map(t => t.fullName || 'unnamed');
+      issues.push({
+        taskId: task.id,
+        severity: 'warning',
+        code: 'duplicate-url',
+        message: `Same photo URL as ${others.slice(0, 2).join(', ')}${others.length > 2 ? ` and ${others.length - 2} more` : ''}`
+      });
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Sends a HEAD request for each task to catch dead links and non-image URLs
+ * before the batch starts. Hosts that refuse HEAD or cross-origin requests
+ * only produce warnings, since the real download may still work.
+ */
+export async function checkUrlsRemotely(
+  tasks: ImageTask[],
+  control: QueueControl,
+  onProgress: (done: number, issues: ValidationIssue[]) => void,
+  { fetchMode = 'direct', scheduler = DEFAULT_SCHEDULER }: { fetchMode?: FetchMode; scheduler?: SchedulerSettings } = {}
+): Promise<ValidationIssue[]> {
+  const issues: ValidationIssue[] = [];
+  let done = 0;
+  // Same host limits as the downloads, but gentler overall
+  const limits = { ...scheduler, concurrency: Math.min(scheduler.concurrency, HEAD_CHECK_CONCURRENCY) };
+
+  await runScheduled<ImageTask>(tasks, limits, control, task => hostOf(task.url), async (task, signal, throttle) => {
+    try {
+      const url = task.url.trim();
+      await throttle.acquire(signal);
+      const response = await fetch(fetchMode === 'proxy' ? proxiedUrl(url) : url, { method: 'HEAD', mode: 'cors', signal });
+      throttle.report({ status: response.status });
+      const contentType = response.headers.get('Content-Type') || '';
+      const proxyError = fetchMode === 'proxy' ? response.headers.get(PROXY_ERROR_HEADER) : null;
+      if (proxyError) {
+        issues.push({ taskId: task.id, severity: 'error', code: 'http-error', message: `Proxy: ${proxyError}` });
+      } else if (!response.ok && !HEAD_UNSUPPORTED.has(response.status)) {
+        issues.push({ taskId: task.id, severity: 'error', code: 'http-error', message: `HTTP ${response.status}` });
+      } else if (response.ok && contentType && !contentType.startsWith('image/') && !contentType.startsWith('application/octet-stream')) {
+        issues.push({ taskId: task.id, severity: 'warning', code: 'not-image', message: `Serves ${contentType.split(';')[0]}, not an image` });
+      }
+    } catch {
+      if (signal.aborted) return;
+      issues.push({ taskId: task.id, severity: 'warning', code: 'unreachable', message: 'No answer to a HEAD request (offline, CORS or HEAD blocked)' });
+    }
+    done++;
+    onProgress(done, [...issues]);
+  });
+
+  return issues;
+}
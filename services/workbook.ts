@@ -0,0 +1,141 @@
+import * as XLSX from 'xlsx';
+import { ImageTask, ParsedSheet, SheetRow } from '../types';
+import { cellToString } from '../utils';
+import { isKnownHeader } from './columnMapping';
+import { REPORT_MIME_TYPES, resolveOutputPath } from './report';
+
+// Only the top of a sheet is scanned for the header row; Cvent exports
+// sometimes put a title block or filter summary above it.
+const HEADER_SCAN_ROWS = 15;
+
+/**
+ * Picks the row most likely to hold the column headers: the one with the most
+ * recognised header names, falling back to the first row with two or more
+ * text cells.
+ */
+function detectHeaderRow(matrix: unknown[][]): number {
+  let bestIndex = -1;
+  let bestScore = 0;
+  let firstTextRow = -1;
+
+  matrix.slice(0, HEADER_SCAN_ROWS).forEach((row, index) => {
+    const cells = row.map(cellToString).filter(Boolean);
+    const textCells = row.filter(c => typeof c === 'string' && c.trim()).length;
+    if (firstTextRow === -1 && textCells >= 2) firstTextRow = index;
+
+    const score = cells.filter(isKnownHeader).length;
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = index;
+    }
+  });
+
+  return bestIndex !== -1 ? bestIndex : firstTextRow;
+}
+
+/**
+ * Makes header labels usable as object keys: blanks get a column letter and
+ * repeated labels get a numeric suffix.
+ */
+function buildHeaders(row: unknown[], width: number): string[] {
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, col) => {
+    const label = cellToString(row[col]) || `Column ${XLSX.utils.encode_col(col)}`;
+    const count = (seen.get(label) || 0) + 1;
+    seen.set(label, count);
+    return count > 1 ? `${label} (${count})` : label;
+  });
+}
+
+/**
+ * Turns a grid of cells into a ParsedSheet. `firstRow` is the worksheet row
+ * of matrix[0]; the header row is detected unless `headerIndex` is given.
+ */
+export function matrixToSheet(name: string, matrix: unknown[][], firstRow = 0, headerIndex = detectHeaderRow(matrix)): ParsedSheet {
+  if (headerIndex === -1 || !matrix[headerIndex]) return { name, headerRowIndex: -1, headers: [], rows: [] };
+
+  const width = Math.max(...matrix.map(r => r.length));
+  const headers = buildHeaders(matrix[headerIndex], width);
+  const rows = matrix.slice(headerIndex + 1)
+    .map((cells, offset) => {
+      const values: SheetRow = {};
+      headers.forEach((header, col) => { values[header] = cells[col] ?? ''; });
+      return { rowIndex: firstRow + headerIndex + 1 + offset, values };
+    })
+    .filter(row => Object.values(row.values).some(v => cellToString(v) !== ''));
+
+  return { name, headerRowIndex: firstRow + headerIndex, headers, rows };
+}
+
+/**
+ * Reads every sheet of a workbook into header-keyed rows, keeping the
+ * original worksheet row number of each row.
+ */
+export function readWorkbook(data: ArrayBuffer): ParsedSheet[] {
+  const workbook = XLSX.read(new Uint8Array(data), { type: 'array', cellDates: true });
+
+  return workbook.SheetNames.map(sheetName => {
+    const worksheet = workbook.Sheets[sheetName];
+    const ref = worksheet['!ref'];
+    if (!ref) return { name: sheetName, headerRowIndex: -1, headers: [], rows: [] };
+
+    const range = XLSX.utils.decode_range(ref);
+    const matrix = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, defval: '', blankrows: true });
+    return matrixToSheet(sheetName, matrix, range.s.r);
+  });
+}
+
+export const RESULT_COLUMNS = ['Photo Filename', 'Photo ZIP Path', 'Photo Status', 'Photo Error'];
+
+const resultValues = (task: ImageTask, written?: Map<string, string>): string[] => {
+  const path = resolveOutputPath(task, written);
+  const status = task.status === 'pending' && !task.isSelected ? 'not selected' : task.status;
+  return [(path ?? task.filename).split('/').pop() || '', path ?? '', status, task.error ?? ''];
+};
+
+/**
+ * Re-emits an uploaded workbook with each task's result written into extra
+ * columns after the last one on its row. Result columns from an earlier
+ * export are found by header and overwritten instead of added again. Pass
+ * only the sheets read from this file.
+ */
+export function annotateWorkbook(data: ArrayBuffer, sheets: ParsedSheet[], tasks: ImageTask[], written?: Map<string, string>): Blob {
+  const workbook = XLSX.read(new Uint8Array(data), { type: 'array', cellStyles: true, cellNF: true });
+  const rowKey = (sheet: string, row: number) => `${sheet}\u0000${row}`;
+  const taskByRow = new Map(tasks.map(t => [rowKey(t.sheet, t.rowIndex), t]));
+
+  sheets.forEach(sheet => {
+    const worksheet = workbook.Sheets[sheet.sourceSheet ?? sheet.name];
+    const ref = worksheet?.['!ref'];
+    if (!ref || sheet.headerRowIndex < 0) return;
+
+    const range = XLSX.utils.decode_range(ref);
+    const headerAt = (c: number) => cellToString(worksheet[XLSX.utils.encode_cell({ r: sheet.headerRowIndex, c })]?.v);
+    let next = range.e.c + 1;
+    const columns = RESULT_COLUMNS.map(header => {
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        if (headerAt(c) === header) return c;
+      }
+      return next++;
+    });
+
+    columns.forEach((c, i) => {
+      worksheet[XLSX.utils.encode_cell({ r: sheet.headerRowIndex, c })] = { t: 's', v: RESULT_COLUMNS[i] };
+    });
+    for (let r = sheet.headerRowIndex + 1; r <= range.e.r; r++) {
+      const task = taskByRow.get(rowKey(sheet.name, r));
+      const values = task ? resultValues(task, written) : [];
+      columns.forEach((c, i) => {
+        const address = XLSX.utils.encode_cell({ r, c });
+        if (values[i]) worksheet[address] = { t: 's', v: values[i] };
+        else delete worksheet[address];
+      });
+    }
+
+    range.e.c = Math.max(range.e.c, ...columns);
+    worksheet['!ref'] = XLSX.utils.encode_range(range);
+  });
+
+  const output = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+  return new Blob([output], { type: REPORT_MIME_TYPES.xlsx });
+}
@@ -0,0 +1,212 @@
+import JSZip from 'jszip';
+import { ImageProcessingSettings, ImageTask, OutputFormatSettings, ProcessingSummary, ZipExportSettings } from '../types';
+import { downloadBlob } from '../utils';
+import { getOutputPath } from './collisions';
+import { FORMAT_EXTENSIONS, withExtension } from './imageFormat';
+import { needsProcessing, processImage } from './imageProcessing';
+
+const STORAGE_KEY = 'cvent-batcher:zip-export';
+
+// Saving to a folder opens a picker on every export, so it is opt-in
+export const DEFAULT_ZIP_EXPORT: ZipExportSettings = { maxPartMB: 2000, saveToFolder: false };
+
+/** Largest part built in memory when ZIPs are downloaded rather than saved to a folder */
+export const MAX_DOWNLOAD_PART_MB = 500;
+
+export interface ZipEntry {
+  path: string;
+  data: Blob | string;
+  /** Set for images so reports can show where each task ended up */
+  taskId?: string;
+}
+
+/**
+ * Destination of a ZIP stream. Chunks arrive in order and each write is
+ * awaited, so a slow disk holds the generator back instead of memory filling.
+ */
+export interface ZipSink {
+  write(chunk: Uint8Array): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+type DirectoryPicker = (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+
+export function canSaveToFolder(): boolean {
+  return typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+}
+
+/**
+ * Asks the user for an output folder. Must be called before anything else is
+ * awaited in a click handler, or the browser rejects it as not user-initiated.
+ * Returns null if the picker was dismissed.
+ */
+export async function pickOutputFolder(): Promise<FileSystemDirectoryHandle | null> {
+  const picker = (window as unknown as { showDirectoryPicker: DirectoryPicker }).showDirectoryPicker;
+  try {
+    return await picker({ id: 'cvent-batcher-zip', mode: 'readwrite' });
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') return null;
+    throw err;
+  }
+}
+
+export async function createFolderSink(folder: FileSystemDirectoryHandle, filename: string): Promise<ZipSink> {
+  const handle = await folder.getFileHandle(filename, { create: true });
+  const writable = await handle.createWritable();
+  return {
+    write: (chunk) => writable.write(chunk as Uint8Array<ArrayBuffer>),
+    close: () => writable.close(),
+    abort: () => writable.abort()
+  };
+}
+
+/**
+ * Fallback for browsers without folder access: chunks are held in memory
+ * until the part is complete and then downloaded as one Blob, so parts
+ * should be kept to MAX_DOWNLOAD_PART_MB.
+ */
+export function createDownloadSink(filename: string): ZipSink {
+  let chunks: BlobPart[] = [];
+  return {
+    write: async (chunk) => { chunks.push(chunk as Uint8Array<ArrayBuffer>); },
+    close: async () => {
+      downloadBlob(new Blob(chunks, { type: 'application/zip' }), filename);
+      chunks = [];
+    },
+    abort: async () => { chunks = []; }
+  };
+}
+
+/**
+ * Groups completed tasks into ZIP parts of at most maxMB, by downloaded size.
+ * A single file larger than the limit still gets a part of its own.
+ */
+export function planZipParts(tasks: ImageTask[], maxMB: number): ImageTask[][] {
+  if (maxMB <= 0) return tasks.length ? [tasks] : [];
+  const maxBytes = maxMB * 1024 * 1024;
+  const parts: ImageTask[][] = [];
+  let current: ImageTask[] = [];
+  let size = 0;
+
+  for (const task of tasks) {
+    const bytes = task.blob?.size ?? 0;
+    if (current.length > 0 && size + bytes > maxBytes) {
+      parts.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(task);
+    size += bytes;
+  }
+  if (current.length > 0) parts.push(current);
+  return parts;
+}
+
+/**
+ * Part size to use when parts are downloaded: the chosen size, capped so a
+ * single part never has to fit more than MAX_DOWNLOAD_PART_MB in memory.
+ */
+export function downloadPartMB(maxPartMB: number): number {
+  return maxPartMB > 0 ? Math.min(maxPartMB, MAX_DOWNLOAD_PART_MB) : MAX_DOWNLOAD_PART_MB;
+}
+
+export function zipPartName(baseName: string, part: number, parts: number): string {
+  return parts > 1 ? `${baseName}_part${part}of${parts}.zip` : `${baseName}.zip`;
+}
+
+/**
+ * Turns tasks into ZIP entries, applying image processing where configured.
+ * writtenPaths is shared across parts so no path is ever written twice.
+ */
+export async function prepareImageEntries(
+  tasks: ImageTask[],
+  processing: ImageProcessingSettings,
+  output: OutputFormatSettings,
+  writtenPaths: Set<string>,
+  summary: ProcessingSummary,
+  onFile?: (done: number) => void
+): Promise<ZipEntry[]> {
+  const entries: ZipEntry[] = [];
+  for (const task of tasks) {
+    if (!task.blob) continue;
+
+    let basePath = getOutputPath(task);
+    let blob = task.blob;
+    if (needsProcessing(task.format, processing, output)) {
+      try {
+        const result = await processImage(task.blob, task.format, processing, output);
+        blob = result.blob;
+        basePath = withExtension(basePath, FORMAT_EXTENSIONS[result.format]);
+        summary.processed++;
+      } catch (err) {
+        // Keep the original file rather than dropping the photo
+        console.warn(`Could not process ${basePath}`, err);
+        summary.failed++;
+      }
+    }
+    summary.files++;
+    summary.originalBytes += task.blob.size;
+    summary.outputBytes += blob.size;
+
+    // Collisions are resolved upstream; this guard only makes sure nothing is ever overwritten
+    let path = basePath;
+    for (let n = 2; writtenPaths.has(path.toLowerCase()); n++) {
+      path = basePath.replace(/(\.[^./]*)?$/, `-${n}$1`);
+    }
+    writtenPaths.add(path.toLowerCase());
+    entries.push({ path, data: blob, taskId: task.id });
+    onFile?.(entries.length);
+  }
+  return entries;
+}
+
+/**
+ * Writes a ZIP into the sink chunk by chunk. The generator is paused while
+ * each chunk is written, so at most one chunk is held beyond the inputs.
+ */
+export async function streamZip(entries: ZipEntry[], sink: ZipSink, onPercent?: (percent: number) => void): Promise<void> {
+  const zip = new JSZip();
+  // JSZip reads Blobs through FileReader, which Node (the CLI) doesn't have
+  const readBlobs = typeof FileReader === 'undefined';
+  entries.forEach(entry => zip.file(entry.path, readBlobs && entry.data instanceof Blob ? entry.data.arrayBuffer() : entry.data));
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      let writing = Promise.resolve();
+      const stream = zip.generateInternalStream({ type: 'uint8array', streamFiles: true });
+      stream
+        .on('data', (chunk, metadata) => {
+          stream.pause();
+          writing = sink.write(chunk).then(() => {
+            onPercent?.(metadata.percent);
+            stream.resume();
+          }, reject);
+        })
+        .on('error', reject)
+        .on('end', () => { writing.then(resolve, reject); });
+      stream.resume();
+    });
+  } catch (err) {
+    await sink.abort().catch(() => undefined);
+    throw err;
+  }
+  await sink.close();
+}
+
+export function loadZipExportSettings(): ZipExportSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_ZIP_EXPORT, ...JSON.parse(raw) } : DEFAULT_ZIP_EXPORT;
+  } catch {
+    return DEFAULT_ZIP_EXPORT;
+  }
+}
+
+export function saveZipExportSettings(settings: ZipExportSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Could not save ZIP export settings", err);
+  }
+}
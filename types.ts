@@ -2,14 +2,217 @@
 export interface ImageTask {
   id: string;
   sheet: string;
+  /** Name of the uploaded file the row came from */
+  source?: string;
+  /** Position of that file in the upload; see ParsedSheet */
+  sourceIndex?: number;
+  /** Zero-based row number in the source worksheet */
+  rowIndex: number;
   fullName: string;
+  firstName?: string;
+  lastName?: string;
   url: string;
   filename: string;
+  /** Folder inside the ZIP from the folder layout; '' is the root, unset falls back to the sheet */
+  folder?: string;
   registrationDate?: Date | null;
   isSelected: boolean;
   status: 'pending' | 'downloading' | 'completed' | 'failed' | 'skipped';
   error?: string;
+  /** Why a download failed, for grouping; the details are in `error` */
+  errorKind?: DownloadErrorKind;
+  /** Status code of the last HTTP response, if one was received */
+  httpStatus?: number;
+  /** Fetch attempts made, including retries */
+  attempts?: number;
   blob?: Blob;
+  /** Size of the downloaded file, kept for reports after the blob is gone */
+  bytes?: number;
+  /** Pixel size read from the image header */
+  width?: number;
+  height?: number;
+  /** Time spent downloading, including retries */
+  durationMs?: number;
+  /** SHA-256 of the downloaded bytes */
+  sha256?: string;
+  /** Id of the run manifest this task was found unchanged in, when skipped for that reason */
+  unchangedSince?: string;
+  /** Every cell of the source row, keyed by header */
+  fields: Record<string, string>;
+  /** Detected from the file signature, falling back to Content-Type */
+  format?: ImageFormat;
+  contentType?: string;
+  /** Set when another attendee rendered to the same output path */
+  collision?: FilenameCollision;
+  /** Id of the task kept in its place when the same attendee was in several files */
+  duplicateOf?: string;
+  /** Left out of the ZIP from the gallery; the download is kept */
+  excluded?: boolean;
+  /** Name of the local file used in place of the downloaded image */
+  replacement?: string;
+  /** Perceptual hash of the image, for spotting placeholders and duplicates */
+  phash?: string;
+  /** Set by the quality checks; the task is also 'skipped' when flagged images are skipped */
+  quality?: { issue: QualityIssueKind; reason: string };
+}
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'heic' | 'avif' | 'bmp' | 'tiff' | 'svg';
+
+export interface OutputFormatSettings {
+  /** 'original' keeps every file as downloaded */
+  target: 'original' | 'jpeg' | 'png' | 'webp';
+  /** 0–1, used for JPEG and WebP */
+  quality: number;
+}
+
+export interface ImageProcessingSettings {
+  enabled: boolean;
+  /** Pixels; 0 means no limit. Images are never upscaled. */
+  maxWidth: number;
+  maxHeight: number;
+  /** 'center' crops to the maxWidth × maxHeight aspect ratio */
+  crop: 'none' | 'center' | 'square' | 'face';
+  /** Lower the quality until the file fits; 0 means no size target */
+  targetKB: number;
+  fixOrientation: boolean;
+  /** Re-encode even when nothing else changes, so EXIF, GPS and other metadata are dropped */
+  stripMetadata: boolean;
+}
+
+/** A named combination of processing and output format, e.g. 'Badge printer' */
+export interface ProcessingPreset {
+  name: string;
+  processing: ImageProcessingSettings;
+  output: OutputFormatSettings;
+}
+
+export interface ProcessingSummary {
+  files: number;
+  /** Files that were re-encoded */
+  processed: number;
+  /** Files kept as downloaded because the browser could not process them */
+  failed: number;
+  originalBytes: number;
+  outputBytes: number;
+}
+
+export interface ZipExportSettings {
+  /** Start a new ZIP part once this many megabytes are queued; 0 keeps one file */
+  maxPartMB: number;
+  /** Stream parts straight into a folder picked by the user, where supported */
+  saveToFolder: boolean;
+}
+
+export interface ZipProgress {
+  /** 1-based index of the part being written */
+  part: number;
+  parts: number;
+  phase: 'preparing' | 'writing';
+  percent: number;
+}
+
+export interface FolderLayout {
+  mode: 'flat' | 'sheet' | 'source' | 'date' | 'column' | 'template';
+  dateGrouping: 'day' | 'week' | 'month';
+  column?: string;
+  /** Path template for 'template' mode, using the filename template tokens */
+  pattern: string;
+}
+
+export interface FilenameCollision {
+  /** The filename every member of the group rendered to before resolution */
+  baseFilename: string;
+  groupSize: number;
+  resolution: 'kept' | 'suffix' | 'column' | 'skipped';
+}
+
+export interface CollisionSettings {
+  strategy: 'suffix' | 'column' | 'skip';
+  /** Column whose value is appended when strategy is 'column', e.g. Registration ID or Email */
+  column?: string;
+}
+
+export interface DedupeSettings {
+  /** How attendees are matched across files */
+  mode: 'off' | 'name' | 'nameAndUrl';
+  /** Which file's row is downloaded when an attendee is in several */
+  keep: 'first' | 'last';
+}
+
+export interface ValidationIssue {
+  taskId: string;
+  /** Errors will fail the download; warnings may still produce a photo */
+  severity: 'error' | 'warning';
+  code: 'invalid-url' | 'unsupported-url' | 'missing-name' | 'suspicious-name' | 'bad-date' | 'duplicate-url' | 'http-error' | 'not-image' | 'unreachable';
+  message: string;
+}
+
+export interface RetryPolicy {
+  /** Total tries per image, including the first */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles on each further retry */
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export type DownloadErrorKind =
+  | 'network' | 'timeout' | 'http' | 'proxy'
+  | 'too-large' | 'too-small' | 'content-type' | 'not-image' | 'undecodable';
+
+/** Checks applied to every download before it counts as a photo */
+export interface ResponsePolicy {
+  /** Per attempt, including reading the body; 0 disables */
+  timeoutMs: number;
+  /** 0 disables */
+  maxBytes: number;
+  minBytes: number;
+  /** Reject responses whose Content-Type isn't an image, e.g. HTML error pages */
+  strictContentType: boolean;
+  /** Reject files whose first bytes aren't a known image format */
+  requireImageSignature: boolean;
+  /** Have the browser decode the image once; skipped where it can't decode the format at all */
+  verifyDecode: boolean;
+}
+
+export type QualityIssueKind = 'placeholder' | 'duplicate' | 'low-resolution' | 'aspect-ratio';
+
+/** Checks run over downloaded images after a batch */
+export interface QualitySettings {
+  /** Pixels; 0 turns the check off */
+  minWidth: number;
+  minHeight: number;
+  /** Width divided by height; 0 turns a bound off */
+  minAspect: number;
+  maxAspect: number;
+  /** Perceptual hashes of images known to be placeholders, such as the generic silhouette */
+  placeholderHashes: string[];
+  /** The same image for at least this many attendees counts as a placeholder; 0 turns it off */
+  placeholderGroupSize: number;
+  detectDuplicates: boolean;
+  /** Bits out of 64 two hashes may differ by and still be the same picture */
+  hashTolerance: number;
+  /** Mark flagged images skipped, leaving them out of the ZIP, instead of only flagging them */
+  skipFlagged: boolean;
+}
+
+/** Limits for hosts matching `host`; `*.example.com` matches every subdomain */
+export interface HostLimit {
+  host: string;
+  concurrency: number;
+  /** 0 means unlimited */
+  requestsPerSecond: number;
+}
+
+export interface SchedulerSettings {
+  /** Downloads in flight across all hosts */
+  concurrency: number;
+  /** Default cap per host */
+  perHostConcurrency: number;
+  /** Default request rate per host, retries included; 0 means unlimited */
+  requestsPerSecond: number;
+  hostLimits: HostLimit[];
+  /** Slow a host down when it answers 429 or 5xx, and speed up again as it recovers */
+  adaptive: boolean;
 }
 
 export interface ProcessingStats {
@@ -19,10 +222,139 @@ export interface ProcessingStats {
   skipped: number;
   pending: number;
   selected: number;
+  /** Tasks whose filename clashed with another attendee's */
+  collisions: number;
+}
+
+export type SheetRow = Record<string, unknown>;
+
+export interface ParsedSheet {
+  /** Unique within the batch; used as the sheet grouping */
+  name: string;
+  /** Uploaded file the sheet came from */
+  source?: string;
+  /** Position of that file in the upload, which tells apart files with the same name */
+  sourceIndex?: number;
+  /** Worksheet name inside the source file, when it differs from name */
+  sourceSheet?: string;
+  /** Zero-based worksheet row holding the headers, -1 when none was found */
+  headerRowIndex: number;
+  headers: string[];
+  rows: { rowIndex: number; values: SheetRow }[];
+}
+
+export interface ColumnMapping {
+  nameMode: 'full' | 'split';
+  fullName?: string;
+  firstName?: string;
+  lastName?: string;
+  url?: string;
+  registrationDate?: string;
+}
+
+export interface FilenameTemplate {
+  /** e.g. '{last}.{first}' or '{sheet}/{first|lower}_{col:Reg ID}' */
+  pattern: string;
+  case: 'preserve' | 'lower' | 'upper';
+  /** Transliterate accented letters and drop any other non-ASCII characters */
+  asciiOnly: boolean;
+  whitespace: 'keep' | 'underscore' | 'dash' | 'remove';
+}
+
+/** Listing entry for a batch saved in IndexedDB */
+export interface SessionSummary {
+  id: string;
+  /** Name of the uploaded file */
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  total: number;
+  completed: number;
+  failed: number;
+}
+
+/** 'proxy' fetches images through the dev server to get around CORS */
+export type FetchMode = 'direct' | 'proxy';
+
+export type FilterOperator = 'equals' | 'not-equals' | 'contains' | 'not-contains' | 'regex' | 'in-list' | 'empty' | 'not-empty';
+
+/** A test on one source column, compared case-insensitively */
+export interface FilterCondition {
+  column: string;
+  operator: FilterOperator;
+  /** A pattern for 'regex'; values separated by commas or new lines for 'in-list' */
+  value: string;
+}
+
+export interface FilterGroup {
+  /** 'all' needs every condition to hold (AND), 'any' just one (OR) */
+  match: 'all' | 'any';
+  conditions: FilterCondition[];
+}
+
+/** Column conditions applied on top of the sheet and date filters */
+export interface RowFilter {
+  /** How the groups combine */
+  match: 'all' | 'any';
+  groups: FilterGroup[];
+}
+
+/** How loosely an imported attendee list is matched against the rows */
+export type ListMatchMode = 'exact' | 'case-insensitive' | 'fuzzy';
+
+export interface FilterPreset {
+  name: string;
+  rowFilter: RowFilter;
+  startDate: string;
+  endDate: string;
+  includeUndated: boolean;
+}
+
+/** Everything needed to restore a batch, except the downloaded blobs */
+export interface SessionSnapshot {
+  files: File[];
+  /** Single input of sessions saved before multi-file upload */
+  file?: File | null;
+  parsedSheets: ParsedSheet[];
+  columnMappings: Record<string, ColumnMapping>;
+  unmappedSheets: string[];
+  availableSheets: string[];
+  selectedSheets: string[];
+  startDate: string;
+  endDate: string;
+  /** Missing in sessions saved before the filter builder existed */
+  includeUndated?: boolean;
+  rowFilter?: RowFilter;
+  /** Missing in sessions saved before the proxy existed */
+  fetchMode?: FetchMode;
+  tasks: Omit<ImageTask, 'blob'>[];
+}
+
+/** One attendee as recorded at the end of a run */
+export interface ManifestEntry {
+  /** Identity used to match attendees between runs: sheet and name, plus the URL for namesakes */
+  key: string;
+  sheet: string;
+  fullName: string;
+  url: string;
+  filename: string;
+  /** Missing when the browser couldn't hash the download */
+  sha256?: string;
+}
+
+export interface RunManifestSummary {
+  id: string;
+  /** Name of the uploaded file */
+  name: string;
+  createdAt: number;
+  count: number;
 }
 
-export interface ExcelRow {
-  'Full Name': string;
-  'Image URL': string;
-  'Registration Date'?: string | number;
+export interface RunDiff {
+  added: number;
+  changed: number;
+  unchanged: number;
+  /** Same name and URL as another row in the sheet, so left out of the comparison */
+  ambiguous: number;
+  removed: ManifestEntry[];
 }
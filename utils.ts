@@ -1,32 +1,70 @@
+import * as XLSX from 'xlsx';
 
 /**
  * Normalizes attendee names into 'Last.First' format.
  * Replicates the logic from the Python script.
  */
 export function normalizeName(fullName: string): string {
-  let name = (fullName || '').trim();
-  let first = '';
-  let last = '';
+  const name = (fullName || '').trim();
+
+  if (!name.includes(',') && name.split(/\s+/).length < 2) {
+    return name.replace(/\W+/g, '') || "Unknown.Unknown";
+  }
+
+  const { first, last } = splitName(name);
+  return normalizeNameParts(first, last);
+}
+
+/**
+ * Splits a full name into first and last parts, accepting both
+ * 'Last, First' and 'First Middle Last'. Single words become the first name.
+ */
+export function splitName(fullName: string): { first: string; last: string } {
+  const name = (fullName || '').trim();
 
   if (name.includes(',')) {
     const parts = name.split(',').map(p => p.trim());
-    last = parts[0];
-    first = parts[1] || '';
-  } else {
-    const parts = name.split(/\s+/);
-    if (parts.length < 2) {
-      return name.replace(/\W+/g, '') || "Unknown.Unknown";
-    }
-    first = parts[0];
-    last = parts[parts.length - 1];
+    return { first: parts[1] || '', last: parts[0] };
   }
 
-  const safeLast = last.replace(/\W+/g, '') || "Unknown";
-  const safeFirst = first.replace(/\W+/g, '') || "Unknown";
+  const parts = name.split(/\s+/);
+  if (parts.length < 2) return { first: parts[0] || '', last: '' };
+  return { first: parts[0], last: parts[parts.length - 1] };
+}
+
+/**
+ * Builds the 'Last.First' form from names that arrive in separate columns.
+ */
+export function normalizeNameParts(first: string, last: string): string {
+  const safeLast = (last || '').trim().replace(/\W+/g, '') || "Unknown";
+  const safeFirst = (first || '').trim().replace(/\W+/g, '') || "Unknown";
 
   return `${safeLast}.${safeFirst}`;
 }
 
+/**
+ * Parses a registration date cell, which may be a Date (cellDates),
+ * an Excel serial number or a free-form string.
+ */
+export function parseExcelDate(val: unknown): Date | null {
+  if (!val) return null;
+  if (val instanceof Date) return isNaN(val.getTime()) ? null : val;
+  if (typeof val === 'number') {
+    return XLSX.SSF.parse_date_code(val) ? new Date(Math.round((val - 25569) * 86400 * 1000)) : null;
+  }
+  const d = new Date(String(val));
+  return isNaN(d.getTime()) ? null : d;
+}
+
+/**
+ * Converts a raw cell value into the trimmed string shown and stored for a row.
+ */
+export function cellToString(val: unknown): string {
+  if (val === null || val === undefined) return '';
+  if (val instanceof Date) return isNaN(val.getTime()) ? '' : val.toISOString().split('T')[0];
+  return String(val).trim();
+}
+
 /**
  * Formats bytes into human readable string
  */
@@ -38,3 +76,64 @@ export function formatBytes(bytes: number, decimals = 2) {
   const i = Math.floor(Math.log(bytes) / Math.log(k));
   return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
 }
+
+/**
+ * Builds one CSV line, quoting every value and doubling embedded quotes.
+ */
+export function toCsvRow(values: unknown[]): string {
+  return values.map(v => `"${String(v ?? '').replace(/"/g, '""')}"`).join(',');
+}
+
+/**
+ * Splits 'folder/Smith.John.jpg' into ['folder/Smith.John', '.jpg'].
+ * Dots inside folder names are not treated as extensions.
+ */
+export function splitExtension(filename: string): [string, string] {
+  const dot = filename.lastIndexOf('.');
+  return dot > filename.lastIndexOf('/') ? [filename.slice(0, dot), filename.slice(dot)] : [filename, ''];
+}
+
+/**
+ * SHA-256 of a blob as lowercase hex, or undefined where Web Crypto isn't
+ * available, e.g. a page served over plain http on the local network.
+ */
+export async function sha256Hex(blob: Blob): Promise<string | undefined> {
+  if (!globalThis.crypto?.subtle) return undefined;
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Saves a blob through a temporary download link.
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+
+  setTimeout(() => {
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, 100);
+}
+
+/**
+ * Resolves after `ms`, or rejects with the abort reason as soon as `signal` aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}